@@ -1,6 +1,7 @@
 'use server';
 /**
- * @fileOverview Generates a coloring page image from a text prompt by calling an external n8n webhook.
+ * @fileOverview Generates a coloring page image from a text prompt using the configured image provider
+ * (n8n webhook, Gemini via Genkit, or the offline stub — see `src/ai/providers`).
  *
  * - generateColoringPageFromPrompt - A function that generates a coloring page image.
  * - GenerateColoringPageFromPromptInput - The input type for the generateColoringPageFromPrompt function.
@@ -9,19 +10,26 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
-import axios from 'axios';
-
-// The new, stable webhook for image generation
-const WEBHOOK_URL = 'https://abu.awsaibot.com/webhook/b7b16f99-0b4c-49c0-8597-5142694811af';
+import { getImageProvider } from '@/ai/providers';
+import { RESOLUTIONS } from '@/lib/entitlements';
+import { COLORING_STYLES } from '@/lib/coloring-styles';
+import { DIFFICULTY_LEVELS } from '@/lib/difficulty';
+import { PAGE_FORMATS } from '@/lib/page-formats';
 
 const GenerateColoringPageFromPromptInputSchema = z.object({
   prompt: z.string().describe('The user-provided text prompt to generate a coloring page from.'),
-  userId: z.string().describe('The UID of the user requesting the generation.')
+  userId: z.string().describe('The UID of the user requesting the generation.'),
+  resolution: z.enum(RESOLUTIONS).describe('The output resolution, already checked against the user\'s plan.'),
+  style: z.enum(COLORING_STYLES).describe('The style preset the page is drawn in.'),
+  difficulty: z.enum(DIFFICULTY_LEVELS).describe('How simple or intricate the page is, by the age of who will color it.'),
+  pageFormat: z.enum(PAGE_FORMATS).describe('The paper format the page is printed on, which sets its aspect ratio.'),
 });
 export type GenerateColoringPageFromPromptInput = z.infer<typeof GenerateColoringPageFromPromptInputSchema>;
 
 const GenerateColoringPageFromPromptOutputSchema = z.object({
   imageUrl: z.string().describe("URL of the generated image."),
+  provider: z.string().describe('The image provider that generated it.'),
+  endpoint: z.string().optional().describe('Which of the provider\'s endpoints served it, when it has several.'),
 });
 export type GenerateColoringPageFromPromptOutput = z.infer<typeof GenerateColoringPageFromPromptOutputSchema>;
 
@@ -35,32 +43,15 @@ const generateColoringPageFromPromptFlow = ai.defineFlow(
     inputSchema: GenerateColoringPageFromPromptInputSchema,
     outputSchema: GenerateColoringPageFromPromptOutputSchema,
   },
-  async ({ prompt, userId }) => {
-    try {
-      const response = await axios.post(WEBHOOK_URL, 
-        { prompt, userId },
-        { timeout: 30000 } // 30-second timeout for the webhook
-      );
-      
-      const responseData = response.data;
-
-      // Validate the response from the webhook
-      if (!responseData || typeof responseData.imageUrl !== 'string') {
-        throw new Error('Invalid response from image generation service. Image URL is missing or invalid.');
-      }
-      
-      return {
-        imageUrl: responseData.imageUrl,
-      };
-
-    } catch (error: any) {
-      console.error("Error calling n8n webhook:", error.response ? error.response.data : error.message);
-      
-      if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
-         throw new Error("The image generation service took too long to respond. Please try again in a moment.");
-      }
-
-      throw new Error("Failed to generate coloring page. The AI service may be temporarily unavailable.");
-    }
+  async ({ prompt, userId, resolution, style, difficulty, pageFormat }) => {
+    // The provider is resolved per call so IMAGE_PROVIDER can change without a redeploy.
+    const provider = getImageProvider();
+    const { imageUrl, endpoint } = await provider.generate({ prompt, userId, resolution, style, difficulty, pageFormat });
+
+    return {
+      imageUrl,
+      provider: provider.name,
+      endpoint,
+    };
   }
 );
@@ -0,0 +1,49 @@
+/**
+ * @fileOverview Classified failures from image-generation backends.
+ *
+ * Providers throw ImageProviderError so the retry and circuit-breaker logic in
+ * `./resilience` can tell a busy or broken upstream from a request it will never accept,
+ * and so the message shown to the user matches what actually went wrong.
+ */
+
+export type ImageProviderErrorKind =
+  | 'timeout' // No answer in time
+  | 'server_error' // 5xx, or the connection failed
+  | 'rate_limited' // 429
+  | 'malformed_response' // Answered, but without a usable image
+  | 'rejected' // Any other 4xx: retrying the same request won't help
+  | 'circuit_open'; // Not called: the upstream has been failing
+
+const RETRYABLE_KINDS: ImageProviderErrorKind[] = ['timeout', 'server_error', 'rate_limited'];
+
+const USER_MESSAGES: Record<ImageProviderErrorKind, string> = {
+  timeout: 'The image service took too long to respond. Please try again in a moment.',
+  server_error: 'The image service is having trouble right now. Please try again shortly.',
+  rate_limited: 'The image service is busy right now. Please try again in a minute.',
+  malformed_response: 'The image service sent back something unexpected. Please try again.',
+  rejected: "The image service couldn't create this page. Try rewording your prompt.",
+  circuit_open: 'The image service is temporarily unavailable. Please try again in a few minutes.',
+};
+
+export class ImageProviderError extends Error {
+  readonly kind: ImageProviderErrorKind;
+  readonly retryAfterMs: number | null; // From a Retry-After header, when rate limited
+
+  constructor(kind: ImageProviderErrorKind, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ImageProviderError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  /**
+   * What to tell the user; `message` is the technical detail for the logs.
+   */
+  get userMessage(): string {
+    return USER_MESSAGES[this.kind];
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileOverview Spreads generations over several n8n webhooks and fails over between them.
+ *
+ * - createFailoverProvider - A provider that tries the configured endpoints in turn,
+ *   healthy ones first, picking among those by weight.
+ *
+ * Each endpoint is wrapped with `withResilience`, so it gets its own retries and circuit
+ * breaker; once those give up, the next endpoint is tried. Health comes from probing each
+ * endpoint's `/healthz` (n8n's health check) whenever the last probe is older than
+ * PROBE_INTERVAL_MS, and from the outcome of real calls in between. Like the breakers,
+ * health is tracked per server instance. Results are reported through an observer so
+ * the caller can persist them (see `lib/generation-endpoints.ts`).
+ */
+
+import axios from 'axios';
+import { ImageProviderError, type ImageProviderErrorKind } from './errors';
+import { createN8nWebhookProvider } from './n8n-webhook';
+import { withResilience } from './resilience';
+import type { ImageGenerationProvider, ImageGenerationResult } from './types';
+
+export interface WebhookEndpoint {
+  name: string; // Identifies the endpoint in logs and stats; the URL holds a secret
+  url: string;
+  weight: number; // Relative share of traffic among healthy endpoints
+  healthUrl?: string; // Defaults to `/healthz` on the webhook's origin
+}
+
+export interface EndpointAttemptReport {
+  endpoint: string;
+  ok: boolean;
+  latencyMs: number;
+  errorKind?: ImageProviderErrorKind;
+}
+
+export interface EndpointObserver {
+  onAttempt?(report: EndpointAttemptReport): void;
+  onProbe?(endpoint: string, healthy: boolean): void;
+}
+
+/**
+ * Calls an observer hook. Reporting is best effort: a hook that throws must not fail
+ * the generation, nor make a working endpoint look broken.
+ */
+function notify(hook: string, report: () => void) {
+  try {
+    report();
+  } catch (error: any) {
+    console.error(`Endpoint observer ${hook} failed:`, error?.message ?? error);
+  }
+}
+
+const PROBE_INTERVAL_MS = 30 * 1000;
+const PROBE_TIMEOUT_MS = 5000;
+
+// With somewhere to fail over to, give up on an endpoint sooner
+const FAILOVER_RETRY = { maxAttempts: 2, baseDelayMs: 500, maxDelayMs: 4000 };
+
+// Failures that say something about the endpoint rather than the request
+const UNHEALTHY_KINDS: ImageProviderErrorKind[] = ['timeout', 'server_error', 'circuit_open'];
+
+interface EndpointHealth {
+  healthy: boolean;
+  checkedAt: number;
+  probing: boolean;
+}
+
+const health = new Map<string, EndpointHealth>();
+
+function healthOf(endpoint: WebhookEndpoint): EndpointHealth {
+  let state = health.get(endpoint.url);
+  if (!state) {
+    // Unknown endpoints are assumed healthy until proven otherwise
+    state = { healthy: true, checkedAt: 0, probing: false };
+    health.set(endpoint.url, state);
+  }
+  return state;
+}
+
+function setHealth(endpoint: WebhookEndpoint, healthy: boolean) {
+  const state = healthOf(endpoint);
+  if (state.healthy !== healthy) {
+    console.log(`${healthy ? '✅' : '❌'} Generation endpoint ${endpoint.name} is ${healthy ? 'healthy' : 'unhealthy'}`);
+  }
+  state.healthy = healthy;
+  state.checkedAt = Date.now();
+}
+
+async function probe(endpoint: WebhookEndpoint, observer: EndpointObserver) {
+  const state = healthOf(endpoint);
+  state.probing = true;
+  try {
+    const response = await axios.get(endpoint.healthUrl ?? `${new URL(endpoint.url).origin}/healthz`, {
+      timeout: PROBE_TIMEOUT_MS,
+      validateStatus: () => true,
+    });
+    setHealth(endpoint, response.status >= 200 && response.status < 300);
+  } catch {
+    setHealth(endpoint, false);
+  } finally {
+    state.probing = false;
+  }
+  notify('onProbe', () => observer.onProbe?.(endpoint.name, state.healthy));
+}
+
+/**
+ * Starts a probe of every endpoint not checked recently. Doesn't wait for them: this call
+ * is routed on what is already known.
+ */
+function probeStaleEndpoints(endpoints: WebhookEndpoint[], observer: EndpointObserver) {
+  const now = Date.now();
+  for (const endpoint of endpoints) {
+    const state = healthOf(endpoint);
+    if (!state.probing && now - state.checkedAt >= PROBE_INTERVAL_MS) {
+      void probe(endpoint, observer);
+    }
+  }
+}
+
+/**
+ * Healthy endpoints in a weighted random order, then unhealthy ones by weight as a last resort.
+ */
+function routingOrder(endpoints: WebhookEndpoint[]): WebhookEndpoint[] {
+  const remaining = endpoints.filter((endpoint) => healthOf(endpoint).healthy);
+  const ordered: WebhookEndpoint[] = [];
+  while (remaining.length) {
+    const totalWeight = remaining.reduce((sum, endpoint) => sum + endpoint.weight, 0);
+    let pick = Math.random() * totalWeight;
+    const index = remaining.findIndex((endpoint) => (pick -= endpoint.weight) < 0);
+    ordered.push(...remaining.splice(index === -1 ? remaining.length - 1 : index, 1));
+  }
+  const unhealthy = endpoints.filter((endpoint) => !healthOf(endpoint).healthy).sort((a, b) => b.weight - a.weight);
+  return [...ordered, ...unhealthy];
+}
+
+export function createFailoverProvider(endpoints: WebhookEndpoint[], observer: EndpointObserver = {}): ImageGenerationProvider {
+  if (!endpoints.length) {
+    throw new Error('At least one generation endpoint must be configured.');
+  }
+
+  return {
+    name: 'n8n',
+    async generate(request) {
+      probeStaleEndpoints(endpoints, observer);
+
+      let lastError: unknown;
+      for (const endpoint of routingOrder(endpoints)) {
+        const provider = withResilience(
+          createN8nWebhookProvider({ url: endpoint.url }),
+          endpoint.url,
+          endpoints.length > 1 ? { retry: FAILOVER_RETRY } : undefined
+        );
+        const startedAt = Date.now();
+        let result: ImageGenerationResult;
+        try {
+          result = await provider.generate(request);
+        } catch (error) {
+          lastError = error;
+          const kind = error instanceof ImageProviderError ? error.kind : undefined;
+          notify('onAttempt', () => observer.onAttempt?.({ endpoint: endpoint.name, ok: false, latencyMs: Date.now() - startedAt, errorKind: kind }));
+          // Another endpoint would turn the same request down
+          if (kind === 'rejected') {
+            throw error;
+          }
+          if (!kind || UNHEALTHY_KINDS.includes(kind)) {
+            setHealth(endpoint, false);
+          }
+          console.warn(`Generation endpoint ${endpoint.name} failed (${kind ?? 'unknown'}), failing over`);
+          continue;
+        }
+
+        setHealth(endpoint, true);
+        notify('onAttempt', () => observer.onAttempt?.({ endpoint: endpoint.name, ok: true, latencyMs: Date.now() - startedAt }));
+        return { ...result, endpoint: endpoint.name };
+      }
+      throw lastError;
+    },
+  };
+}
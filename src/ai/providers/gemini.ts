@@ -0,0 +1,115 @@
+import { googleAI } from '@genkit-ai/google-genai';
+import { ai } from '@/ai/genkit';
+import { STYLE_PRESETS, type StylePreset } from '@/lib/coloring-styles';
+import { DIFFICULTY, type DifficultyLevel } from '@/lib/difficulty';
+import { PAGE_FORMAT_SPECS } from '@/lib/page-formats';
+import { ImageProviderError, type ImageProviderErrorKind } from './errors';
+import type { ImageGenerationProvider } from './types';
+
+interface GeminiProviderOptions {
+  model: string;
+}
+
+// Genkit's canonical statuses, for errors it raises itself
+const STATUS_KINDS: Record<string, ImageProviderErrorKind> = {
+  DEADLINE_EXCEEDED: 'timeout',
+  RESOURCE_EXHAUSTED: 'rate_limited',
+  UNAVAILABLE: 'server_error',
+  INTERNAL: 'server_error',
+  UNKNOWN: 'server_error',
+  INVALID_ARGUMENT: 'rejected',
+  FAILED_PRECONDITION: 'rejected',
+  PERMISSION_DENIED: 'rejected',
+  UNAUTHENTICATED: 'rejected',
+  NOT_FOUND: 'rejected',
+};
+
+/**
+ * Turns a failed Gemini call into a classified error. The googleAI plugin only puts the
+ * HTTP status in the message (`[429 Too Many Requests] ...`), so it is read from there.
+ */
+function classifyError(error: unknown): ImageProviderError {
+  if (error instanceof ImageProviderError) {
+    return error;
+  }
+  const message = (error as Error)?.message ?? String(error);
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'string' && STATUS_KINDS[status]) {
+    return new ImageProviderError(STATUS_KINDS[status], message);
+  }
+  const httpStatus = Number(message.match(/\[(\d{3})\b/)?.[1]);
+  if (httpStatus === 429) {
+    return new ImageProviderError('rate_limited', message);
+  }
+  if (httpStatus === 408) {
+    return new ImageProviderError('timeout', message);
+  }
+  if (httpStatus >= 500) {
+    return new ImageProviderError('server_error', message);
+  }
+  if (httpStatus >= 400) {
+    return new ImageProviderError('rejected', message);
+  }
+  if ((error as Error)?.name === 'AbortError' || /timed? ?out|aborted/i.test(message)) {
+    return new ImageProviderError('timeout', message);
+  }
+  // No response at all: refused, reset, DNS...
+  return new ImageProviderError('server_error', message);
+}
+
+/**
+ * Wraps the user's idea in instructions that push the model towards
+ * printable line art in the chosen style instead of a full-colour illustration.
+ * There is no post-processing step here, so the difficulty level's line weight and
+ * density are left to its instructions, which take over from the style's own.
+ */
+function buildColoringPagePrompt(prompt: string, style: StylePreset, difficulty: DifficultyLevel): string {
+  return [
+    `A black and white coloring page of: ${prompt}.`,
+    style.prompt,
+    difficulty.prompt,
+    'Clean black outlines on a pure white background.',
+    'No colour, no shading, no grey fills and no text.',
+  ].join(' ');
+}
+
+/**
+ * Provider that calls a Gemini image model directly through the Genkit
+ * googleAI plugin configured in `src/ai/genkit.ts`. Failures are thrown as
+ * ImageProviderError.
+ */
+export function createGeminiProvider({ model }: GeminiProviderOptions): ImageGenerationProvider {
+  return {
+    name: 'gemini',
+    async generate({ prompt, style, difficulty, pageFormat }) {
+      const preset = STYLE_PRESETS[style];
+      try {
+        const response = await ai.generate({
+          model: googleAI.model(model),
+          prompt: buildColoringPagePrompt(prompt, preset, DIFFICULTY[difficulty]),
+          config: {
+            responseModalities: ['TEXT', 'IMAGE'],
+            temperature: preset.temperature,
+            imageConfig: { aspectRatio: PAGE_FORMAT_SPECS[pageFormat].aspectRatio },
+          },
+        });
+
+        const imageUrl = response.media?.url;
+        if (!imageUrl) {
+          // A blocked prompt will be blocked again; anything else may just have been a bad answer
+          if (response.finishReason === 'blocked') {
+            throw new ImageProviderError('rejected', `Gemini blocked the request: ${response.finishMessage ?? 'no reason given'}`);
+          }
+          throw new ImageProviderError('malformed_response', 'Gemini response did not contain an image.');
+        }
+
+        return { imageUrl };
+      } catch (error) {
+        const classified = classifyError(error);
+        console.error(`Error calling Gemini image model (${classified.kind}):`, classified.message);
+        throw classified;
+      }
+    },
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileOverview Selects the image-generation provider from environment config.
+ *
+ * - IMAGE_PROVIDER      `n8n` (default), `gemini` or `stub`.
+ * - N8N_WEBHOOKS        JSON list of `{ name, url, weight, healthUrl? }` webhooks the n8n
+ *                       provider fails over between (see `./failover`).
+ * - N8N_WEBHOOK_URL     Single webhook used by the n8n provider when N8N_WEBHOOKS is not set.
+ * - GEMINI_IMAGE_MODEL  Model used by the gemini provider.
+ *
+ * Every n8n webhook is wrapped with retries and a circuit breaker (see `./resilience`).
+ */
+
+import { createGeminiProvider } from './gemini';
+import { createLocalStubProvider } from './local-stub';
+import { z } from 'zod';
+import { recordEndpointAttempt, recordEndpointProbe } from '@/lib/generation-endpoints';
+import { createFailoverProvider, type WebhookEndpoint } from './failover';
+import type { ImageGenerationProvider, ImageProviderName } from './types';
+
+export type { ImageGenerationProvider, ImageGenerationRequest, ImageGenerationResult, ImageProviderName } from './types';
+export { ImageProviderError, type ImageProviderErrorKind } from './errors';
+export type { EndpointAttemptReport } from './failover';
+
+// The stable production webhook, used when N8N_WEBHOOK_URL is not set.
+const DEFAULT_WEBHOOK_URL = 'https://abu.awsaibot.com/webhook/b7b16f99-0b4c-49c0-8597-5142694811af';
+const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+const PROVIDER_NAMES: ImageProviderName[] = ['n8n', 'gemini', 'stub'];
+
+// Names are Firestore document IDs (`generationEndpoints/{name}`): no slashes, dots or reserved `__x__` forms
+const ENDPOINT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+const webhookEndpointsSchema = z.array(z.object({
+  name: z.string().regex(ENDPOINT_NAME_PATTERN, 'must be 1-64 letters, digits, "-" or "_", starting with a letter or digit'),
+  url: z.string().url(),
+  weight: z.number().positive().default(1),
+  healthUrl: z.string().url().optional(),
+})).min(1);
+
+function resolveWebhookEndpoints(): WebhookEndpoint[] {
+  const configured = process.env.N8N_WEBHOOKS?.trim();
+  if (!configured) {
+    return [{ name: 'default', url: process.env.N8N_WEBHOOK_URL || DEFAULT_WEBHOOK_URL, weight: 1 }];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(configured);
+  } catch {
+    throw new Error('N8N_WEBHOOKS is not valid JSON.');
+  }
+  const endpoints = webhookEndpointsSchema.safeParse(parsed);
+  if (!endpoints.success) {
+    throw new Error(`Invalid N8N_WEBHOOKS: ${endpoints.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join('; ')}`);
+  }
+  return endpoints.data;
+}
+
+function resolveProviderName(): ImageProviderName {
+  const configured = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+  if (!configured) {
+    return 'n8n';
+  }
+  if (!PROVIDER_NAMES.includes(configured as ImageProviderName)) {
+    throw new Error(`Unknown IMAGE_PROVIDER "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+  return configured as ImageProviderName;
+}
+
+/**
+ * Returns the provider configured for this process.
+ * Environment is read on every call so config changes don't require a code deploy.
+ */
+export function getImageProvider(): ImageGenerationProvider {
+  switch (resolveProviderName()) {
+    case 'gemini':
+      return createGeminiProvider({
+        model: process.env.GEMINI_IMAGE_MODEL || DEFAULT_GEMINI_IMAGE_MODEL,
+      });
+    case 'stub':
+      return createLocalStubProvider();
+    case 'n8n':
+    default:
+      return createFailoverProvider(resolveWebhookEndpoints(), {
+        onAttempt: recordEndpointAttempt,
+        onProbe: recordEndpointProbe,
+      });
+  }
+}
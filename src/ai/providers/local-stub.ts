@@ -0,0 +1,22 @@
+import type { ImageGenerationProvider } from './types';
+
+/**
+ * 256x256 greyscale PNG of simple line art, used so that development and CI
+ * can exercise the full generation pipeline without any network access.
+ */
+const FIXTURE_LINE_ART_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAQAAAAEACAAAAAB5Gfe6AAAE3UlEQVR42u3dy4KbMAxAUf//T7vbzmQCeloC3SynBMQpASzb8tpln/X/py6KFqdfSLCanH4Zwepz/jUCq9H5lwiswvO//tN7Af4+1yqB1eT8ywTW7e/ypR8AAAAAAAA+AY48Ax3/HvccBgAAAAoAbo/BFQAAAAAA8HqAZf3nFwBsAcB+EoD6K5eHscSgDzoKwJjPvtjetitnBFYAc0r/++a2HVkj8AF4ejVissKOCAIAfP06Ef0Cngj8AD+PaBZw9Ay5InADhMbvuYaMEXgBqq9gdwROgPJ7mDsCH0CXp5gjggiAPu8xhghcAOFvstv3ImuJwA9Q35h1ReABWI8AWMkApfmMgAgAAAAAK0CDjp2AEADoBbCeBBB2D7C3Bl9wExQOXXkngHL8zssATGOYOgLY2gLmYVyt2gLWtphzKFuf1qCtNS797xVtV5wPsORjDLd5o8C5lJgiI2fuuVjXO6zKCSpzstYZQVffq80K67LyjglRaoFT/QKKfhnnfLDvX6/tGRL3bPmnw0l2rb/HnOodDpkNqBTYhwAEPVthkyFv918xPmDf9mwFTgYVXwS6HXoBrn/joZNhJYfRP2IDAAQh7477yweInwsdusd0gIy54PE/qTyAnLnwgXtNBsiqBRD9WMkCSCwEELVrADIBUitBhL5b5gAkV8KI2X0iQHolkJAD5APsnS3QFOBEFZCAY6QBrIMAqzHA3s0vgSyAU2Vw3MfJBdj7kEA7gHUYYDUDOFkHynksADIAzhYCi+htACADYO+jAo0AVgnA6gaw9yMugQSAVQSwegHs/YxLAIBwgFUGcDci0A8gH715uhqqJKSrsTQiAGEPdDsAydAFAYBu8GYfgLu4pQDiUShVFZHl41J/bigEkI9D6gVwH7cMQDESrRWAIG4RgH6EYg8ASdwSAM1o1FUKIIvlx98FAKrxyEXnf/HcuolbDKA6aiOAu43vAXRzEvoACOMWAlwfty/Afdy3AMqaf20ApHHLAO4O3BVAEDcAAAAAwBWAbP7yqn4T/jiyOG6uAAAAAAAA2gK0BskHkBEiJ/gVYHxWmH4BeoZ+1W8Y2DdI7zDjA/b4ESIfu7LEUgIQNkboYyP5E7niLUAYN+MEAWCsMKPFmS/AjJEUACZNzQVg4uR4gPFzh5k9Tv2A8RUkqCEyvooMdYSoJDW+lhjV5KgnCMD4mqJUlaWuMJWlx9QWn11dfvj6AtNXmJi+xsj0VWamrzM0faWp6WuNjV9tbvp6g+NXnJy+5uj4VWdZdzhiXWj72W/WHn8DgK8tUwtwu4nhnVe7uT+EZgAbgAcBhN0D8gAechMEAIAnA6zC869uC+xHALTLB0S+CFXnA/z5GHe+sDYj5M/IfW0OKL9YlRN052QvWkNOgTNZYXdW3tkaDIjgXM+QPiWg/L4tgtC+wW3pAgwV1Edwqne47W/ozPiAxnfRIyNE+j9HvQB17zHBEThHielTgNHv0taO9yCAgrZMTAhVAMvfmn0BQGlGBQAAAACgDkBZt5wrAAAAAACAtsCrAMa3BhP61h4GEJkRejJAQE7wqQBBWeEsgDkfAAAAAAAASh6D+0/y48dtAPArgKkAGwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAKASgXwAAAAAAYCbA1A8AAAAAAAAADP78A4Z8kpO5GIucAAAAAElFTkSuQmCC';
+
+/**
+ * Deterministic provider that always returns the bundled fixture image.
+ */
+export function createLocalStubProvider(): ImageGenerationProvider {
+  return {
+    name: 'stub',
+    async generate() {
+      return {
+        imageUrl: `data:image/png;base64,${FIXTURE_LINE_ART_PNG}`,
+      };
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import { STYLE_PRESETS } from '@/lib/coloring-styles';
+import { DIFFICULTY } from '@/lib/difficulty';
+import { PAGE_FORMAT_SPECS } from '@/lib/page-formats';
+import { ImageProviderError } from './errors';
+import type { ImageGenerationProvider } from './types';
+
+interface N8nWebhookProviderOptions {
+  url: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Turns a failed webhook call into a classified error.
+ */
+function classifyError(error: unknown): ImageProviderError {
+  if (error instanceof ImageProviderError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new ImageProviderError('server_error', (error as Error)?.message ?? String(error));
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ImageProviderError('timeout', error.message);
+  }
+  const status = error.response?.status;
+  if (!status) {
+    // No response at all: refused, reset, DNS...
+    return new ImageProviderError('server_error', error.message);
+  }
+  const detail = `Webhook responded ${status}: ${JSON.stringify(error.response?.data ?? null).slice(0, 200)}`;
+  if (status === 429) {
+    const retryAfterSeconds = Number(error.response?.headers['retry-after']);
+    return new ImageProviderError('rate_limited', detail, Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : null);
+  }
+  return new ImageProviderError(status >= 500 ? 'server_error' : 'rejected', detail);
+}
+
+/**
+ * Provider that POSTs the prompt to an n8n workflow webhook and expects
+ * `{ imageUrl: string }` back. Failures are thrown as ImageProviderError; retries are
+ * left to `withResilience`.
+ */
+export function createN8nWebhookProvider({ url, timeoutMs = 30000 }: N8nWebhookProviderOptions): ImageGenerationProvider {
+  return {
+    name: 'n8n',
+    async generate({ prompt, userId, resolution, style, difficulty, pageFormat }) {
+      const { prompt: stylePrompt, lineWeight, detail, temperature } = STYLE_PRESETS[style];
+      const { prompt: difficultyPrompt, minRegionPx, lineWeightPx } = DIFFICULTY[difficulty];
+      const { aspectRatio, widthMm, heightMm } = PAGE_FORMAT_SPECS[pageFormat];
+      try {
+        const response = await axios.post(url,
+          {
+            prompt,
+            userId,
+            resolution,
+            style,
+            stylePrompt,
+            styleParameters: { lineWeight, detail, temperature },
+            difficulty,
+            difficultyPrompt,
+            // Hints only; the workflow may or may not act on them (see lib/difficulty.ts)
+            postProcessing: { minRegionPx, lineWeightPx },
+            pageFormat,
+            aspectRatio,
+            pageSizeMm: { width: widthMm, height: heightMm },
+          },
+          { timeout: timeoutMs }
+        );
+
+        const responseData = response.data;
+
+        // Validate the response from the webhook
+        if (!responseData || typeof responseData.imageUrl !== 'string') {
+          throw new ImageProviderError('malformed_response', 'Invalid response from image generation service. Image URL is missing or invalid.');
+        }
+
+        return {
+          imageUrl: responseData.imageUrl,
+        };
+
+      } catch (error: any) {
+        const classified = classifyError(error);
+        console.error(`Error calling n8n webhook (${classified.kind}):`, classified.message);
+        throw classified;
+      }
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileOverview Retries with jittered backoff and a circuit breaker for image backends.
+ *
+ * - withResilience - Wraps a provider so retryable failures are retried and a failing
+ *   upstream is skipped until it has had time to recover.
+ *
+ * Breaker state lives in this module, keyed by upstream, so it outlasts the provider
+ * objects `getImageProvider()` creates per call. It is per server instance: each
+ * instance finds out on its own that an upstream is down.
+ */
+
+import { ImageProviderError } from './errors';
+import type { ImageGenerationProvider } from './types';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long it stays open before one trial call is let through
+}
+
+const DEFAULT_RETRY: RetryOptions = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+const DEFAULT_BREAKER: CircuitBreakerOptions = { failureThreshold: 5, cooldownMs: 60 * 1000 };
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(private readonly key: string, private readonly options: CircuitBreakerOptions) {}
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.cooldownMs) {
+        throw new ImageProviderError('circuit_open', `Circuit for ${this.key} is open.`);
+      }
+      this.state = 'half_open';
+    } else if (this.state === 'half_open') {
+      // A trial call is already in flight
+      throw new ImageProviderError('circuit_open', `Circuit for ${this.key} is being tested.`);
+    }
+
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  private recordSuccess() {
+    if (this.state !== 'closed') {
+      console.log(`✅ Circuit for ${this.key} closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private recordFailure(error: unknown) {
+    // A request the upstream turned down says nothing about its health, but an answer
+    // to the trial call shows it is back
+    if (error instanceof ImageProviderError && error.kind === 'rejected') {
+      if (this.state === 'half_open') this.recordSuccess();
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.error(`❌ Circuit for ${this.key} opened after ${this.consecutiveFailures} failures`);
+    }
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+function getCircuitBreaker(key: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, options);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together don't all retry
+ * together. A rate limit's Retry-After is always honoured: when it asks for longer than
+ * `maxDelayMs` there is no delay worth waiting, and null is returned so the caller fails fast.
+ */
+function backoffDelay(attempt: number, error: ImageProviderError, { baseDelayMs, maxDelayMs }: RetryOptions): number | null {
+  const retryAfterMs = error.retryAfterMs ?? 0;
+  if (retryAfterMs > maxDelayMs) {
+    return null;
+  }
+  const jittered = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.max(jittered, retryAfterMs);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wraps a provider with bounded retries and a circuit breaker shared by every provider
+ * wrapped with the same `key` (the upstream's URL, say). Each attempt goes through the
+ * breaker, so a circuit that opens mid-retry stops the remaining attempts.
+ */
+export function withResilience(
+  provider: ImageGenerationProvider,
+  key: string,
+  { retry = DEFAULT_RETRY, breaker = DEFAULT_BREAKER }: { retry?: RetryOptions; breaker?: CircuitBreakerOptions } = {}
+): ImageGenerationProvider {
+  const circuit = getCircuitBreaker(key, breaker);
+
+  return {
+    name: provider.name,
+    async generate(request) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await circuit.execute(() => provider.generate(request));
+        } catch (error) {
+          if (!(error instanceof ImageProviderError) || !error.retryable || attempt >= retry.maxAttempts) {
+            throw error;
+          }
+          const delayMs = backoffDelay(attempt, error, retry);
+          if (delayMs === null) {
+            // Retrying sooner than the upstream asked would only be turned away again
+            throw error;
+          }
+          console.warn(`Image provider ${provider.name} failed (${error.kind}), retrying in ${Math.round(delayMs)}ms (attempt ${attempt}/${retry.maxAttempts})`);
+          await sleep(delayMs);
+        }
+      }
+    },
+  };
+}
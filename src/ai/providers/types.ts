@@ -0,0 +1,33 @@
+/**
+ * @fileOverview Shared contract for image-generation backends.
+ *
+ * Every backend (n8n webhook, Gemini via Genkit, local stub) implements
+ * ImageGenerationProvider so the generation flow never needs to know which
+ * vendor actually produced the image.
+ */
+
+import type { ColoringStyle } from '@/lib/coloring-styles';
+import type { Difficulty } from '@/lib/difficulty';
+import type { Resolution } from '@/lib/entitlements';
+import type { PageFormat } from '@/lib/page-formats';
+
+export type ImageProviderName = 'n8n' | 'gemini' | 'stub';
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  userId: string;
+  resolution: Resolution; // Backends that can't choose a size ignore it
+  style: ColoringStyle; // See STYLE_PRESETS for what each style asks of the backend
+  difficulty: Difficulty; // See DIFFICULTY for its instructions and post-processing
+  pageFormat: PageFormat; // The image should come back in its aspect ratio
+}
+
+export interface ImageGenerationResult {
+  imageUrl: string; // Either a remote URL or a data URI.
+  endpoint?: string; // Which configured endpoint served it, for providers with several.
+}
+
+export interface ImageGenerationProvider {
+  readonly name: ImageProviderName;
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { collection, doc, orderBy, query, where } from 'firebase/firestore';
+import { Crown, Download, Loader2, Receipt } from 'lucide-react';
+import { updateDocumentNonBlocking, useCollection, useDoc, useFirebase, useMemoFirebase } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { PLANS, getProduct, hasActivePro, isRecurringPlan, type PlanId, type ProductId } from '@/lib/plans';
+import type { PaymentStatus } from '@/lib/payments';
+import { cancelSubscription, getPricing } from '@/app/subscribe/actions';
+
+interface InvoiceSummary {
+  invoiceNumber: string;
+  orderId: string;
+  description: string;
+  total: number;
+  currency: string;
+  issuedAt: any;
+}
+
+interface PaymentSummary {
+  orderId: string;
+  plan: ProductId;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  amountRefunded?: number;
+  gift?: { recipientEmail: string };
+  createdAt: any;
+}
+
+interface BillingProfile {
+  billingDetails?: Partial<BillingDetails>;
+  isSubscribed?: boolean;
+  plan?: PlanId;
+  subscriptionStatus?: string;
+  currentPeriodEnd?: any;
+  cancelAtPeriodEnd?: boolean;
+  credits?: number;
+}
+
+// Payments that never went through are left out of the history
+const LISTED_PAYMENT_STATUSES: PaymentStatus[] = ['paid', 'partially_refunded', 'refunded'];
+
+const PAYMENT_STATUS_LABEL: Partial<Record<PaymentStatus, string>> = {
+  partially_refunded: 'Partly refunded',
+  refunded: 'Refunded',
+};
+
+interface BillingDetails {
+  name: string;
+  address: string;
+  state: string;
+  gstin: string;
+}
+
+const EMPTY_BILLING_DETAILS: BillingDetails = { name: '', address: '', state: '', gstin: '' };
+
+// 15 characters: state code, PAN, entity number, 'Z', checksum
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+function formatAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat('en-IN', { style: 'currency', currency }).format(amount / 100);
+}
+
+export default function BillingPage() {
+  const { user, isUserLoading, firestore } = useFirebase();
+  const { toast } = useToast();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [billingDetails, setBillingDetails] = useState<BillingDetails>(EMPTY_BILLING_DETAILS);
+
+  const profileRef = useMemoFirebase(
+    () => (user ? doc(firestore, 'users', user.uid) : null),
+    [firestore, user]
+  );
+  const { data: profile } = useDoc<BillingProfile>(profileRef);
+
+  const invoicesQuery = useMemoFirebase(
+    () => (user ? query(collection(firestore, `users/${user.uid}/invoices`), orderBy('issuedAt', 'desc')) : null),
+    [firestore, user]
+  );
+  const { data: invoices, isLoading } = useCollection<InvoiceSummary>(invoicesQuery);
+
+  // The rules only allow listing payments filtered on the caller's uid
+  const paymentsQuery = useMemoFirebase(
+    () => (user ? query(collection(firestore, 'payments'), where('userId', '==', user.uid), where('status', 'in', LISTED_PAYMENT_STATUSES)) : null),
+    [firestore, user]
+  );
+  const { data: payments, isLoading: isPaymentsLoading } = useCollection<PaymentSummary>(paymentsQuery);
+  const [isUpdatingPlan, setIsUpdatingPlan] = useState(false);
+  const [renewalPrice, setRenewalPrice] = useState<{ amount: number; currency: string } | null>(null);
+
+  const sortedPayments = [...(payments ?? [])].sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0));
+  const invoiceByOrderId = new Map((invoices ?? []).map((invoice) => [invoice.orderId, invoice]));
+  const isPro = hasActivePro(profile);
+  // Profiles upgraded before recurring plans existed have no `plan` and are lifetime Pro
+  const currentPlan = isPro ? PLANS[profile?.plan ?? 'pro_lifetime'] : undefined;
+  const isRecurring = !!currentPlan && isRecurringPlan(currentPlan) && profile?.subscriptionStatus === 'active';
+
+  useEffect(() => {
+    if (isRecurring && currentPlan) {
+      getPricing().then((pricing) => setRenewalPrice(pricing.prices[currentPlan.id]));
+    }
+  }, [isRecurring, currentPlan]);
+
+  useEffect(() => {
+    if (profile?.billingDetails) {
+      setBillingDetails({ ...EMPTY_BILLING_DETAILS, ...profile.billingDetails });
+    }
+  }, [profile?.billingDetails]);
+
+  const handleSaveDetails = () => {
+    if (!profileRef) return;
+
+    const gstin = billingDetails.gstin.trim().toUpperCase();
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      toast({ variant: 'destructive', title: 'Invalid GSTIN', description: 'Please check your GSTIN and try again.' });
+      return;
+    }
+
+    updateDocumentNonBlocking(profileRef, { billingDetails: { ...billingDetails, gstin } });
+    toast({ title: 'Billing details saved', description: 'They will appear on your future invoices.' });
+  };
+
+  const handleCancelRenewal = async () => {
+    if (!user) return;
+    if (!window.confirm('Stop your plan from renewing? You keep Pro until the end of the period you paid for. This cannot be undone.')) return;
+
+    setIsUpdatingPlan(true);
+    try {
+      const idToken = await user.getIdToken();
+      const result = await cancelSubscription({ idToken });
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      toast({ title: 'Plan Cancelled', description: result.message });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Could Not Update Plan', description: error.message });
+    } finally {
+      setIsUpdatingPlan(false);
+    }
+  };
+
+  const handleDownload = async (invoice: InvoiceSummary) => {
+    if (!user) return;
+
+    setDownloadingId(invoice.orderId);
+    try {
+      const response = await fetch(`/api/invoices/${encodeURIComponent(invoice.orderId)}`, {
+        headers: { 'Authorization': `Bearer ${await user.getIdToken()}` },
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new Error(result?.message || 'Could not download the invoice.');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.invoiceNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Invoice download failed:', error);
+      toast({ variant: 'destructive', title: 'Download Failed', description: error.message });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (isUserLoading || isLoading || isPaymentsLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="text-center p-8">
+        <h1 className="text-2xl font-bold">Please log in to view your billing history.</h1>
+        <Button asChild className="mt-4">
+          <Link href="/login">Login</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-8 space-y-8">
+      <h1 className="text-4xl sm:text-5xl font-bold tracking-tight gradient-text text-center">Billing</h1>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crown className="h-5 w-5 text-yellow-400" />
+            {currentPlan?.name ?? 'Free Plan'}
+          </CardTitle>
+          <CardDescription>
+            {!currentPlan
+              ? `${profile?.credits ?? 0} credits left. Upgrade for unlimited coloring pages.`
+              : !isRecurring
+                ? 'Lifetime access. Nothing to renew.'
+                : profile?.cancelAtPeriodEnd
+                  ? `Your plan ends on ${profile.currentPeriodEnd?.toDate().toLocaleDateString()} and will not renew.`
+                  : `Renews on ${profile?.currentPeriodEnd?.toDate().toLocaleDateString()}${renewalPrice ? ` for ${formatAmount(renewalPrice.amount, renewalPrice.currency)}` : ''}.`}
+          </CardDescription>
+        </CardHeader>
+        <CardFooter className="gap-3">
+          {!currentPlan && (
+            <Button asChild>
+              <Link href="/subscribe">See Plans</Link>
+            </Button>
+          )}
+          {isRecurring && !profile?.cancelAtPeriodEnd && (
+            <Button variant="outline" onClick={handleCancelRenewal} disabled={isUpdatingPlan}>
+              {isUpdatingPlan && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel Renewal
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Payment History</CardTitle>
+          <CardDescription>A tax invoice is issued for every payment.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sortedPayments.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">
+              No payments yet. <Link href="/subscribe" className="underline">See plans</Link>
+            </p>
+          ) : (
+            <ul className="divide-y divide-white/10">
+              {sortedPayments.map((payment) => {
+                const invoice = invoiceByOrderId.get(payment.orderId);
+                return (
+                  <li key={payment.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Receipt className="h-5 w-5 text-primary shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {getProduct(payment.plan)?.name ?? payment.plan}
+                          {payment.gift && ` (gift for ${payment.gift.recipientEmail})`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {payment.createdAt?.toDate().toLocaleDateString()}
+                          {invoice && ` · ${invoice.invoiceNumber}`}
+                          {PAYMENT_STATUS_LABEL[payment.status] && ` · ${PAYMENT_STATUS_LABEL[payment.status]}`}
+                          {payment.amountRefunded ? ` ${formatAmount(payment.amountRefunded, payment.currency)}` : ''}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="font-semibold">{formatAmount(payment.amount, payment.currency)}</span>
+                      {invoice && (
+                        <Button size="sm" variant="outline" aria-label="Download invoice" onClick={() => handleDownload(invoice)} disabled={downloadingId === invoice.orderId}>
+                          {downloadingId === invoice.orderId ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Billing Details</CardTitle>
+          <CardDescription>Add your business name and GSTIN to claim input tax credit.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          {([
+            ['name', 'Name or business name'],
+            ['gstin', 'GSTIN (optional)'],
+            ['address', 'Address'],
+            ['state', 'State'],
+          ] as [keyof BillingDetails, string][]).map(([field, label]) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`billing-${field}`}>{label}</Label>
+              <Input
+                id={`billing-${field}`}
+                value={billingDetails[field]}
+                onChange={(e) => setBillingDetails((details) => ({ ...details, [field]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </CardContent>
+        <CardFooter>
+          <Button onClick={handleSaveDetails}>Save Details</Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use server';
+
+import { z } from 'zod';
+import { AuthError, verifyIdToken, type AuthenticatedUser } from '@/lib/auth';
+import {
+  GroupError,
+  acceptGroupInvite,
+  cancelGroupInvite,
+  inviteGroupMember,
+  removeGroupMember,
+} from '@/lib/groups';
+
+const inviteSchema = z.object({
+  idToken: z.string(),
+  email: z.string().trim().toLowerCase().email(),
+});
+
+const acceptInviteSchema = z.object({
+  idToken: z.string(),
+  groupId: z.string().min(1),
+  displayName: z.string().trim().max(80).nullable(),
+});
+
+const removeMemberSchema = z.object({
+  idToken: z.string(),
+  groupId: z.string().min(1),
+  memberId: z.string().min(1),
+});
+
+interface GroupActionState {
+  success: boolean;
+  message: string;
+}
+
+async function runGroupAction(idToken: string, failure: string, action: (user: AuthenticatedUser) => Promise<string>): Promise<GroupActionState> {
+  try {
+    const user = await verifyIdToken(idToken);
+    return { success: true, message: await action(user) };
+  } catch (error: any) {
+    if (error instanceof AuthError || error instanceof GroupError) {
+      return { success: false, message: error.message };
+    }
+    console.error(`${failure}:`, error.message);
+    return { success: false, message: `${failure}. Please try again.` };
+  }
+}
+
+/**
+ * Invites someone to the caller's group by email.
+ */
+export async function inviteMember(input: z.infer<typeof inviteSchema>): Promise<GroupActionState> {
+  const validatedFields = inviteSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Please enter a valid email address.' };
+  }
+
+  const { idToken, email } = validatedFields.data;
+  return runGroupAction(idToken, 'Could not send the invitation', async ({ uid }) => {
+    await inviteGroupMember(uid, email);
+    return `Invitation sent to ${email}.`;
+  });
+}
+
+/**
+ * Withdraws one of the caller's pending invitations.
+ */
+export async function cancelInvite(input: z.infer<typeof inviteSchema>): Promise<GroupActionState> {
+  const validatedFields = inviteSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input.' };
+  }
+
+  const { idToken, email } = validatedFields.data;
+  return runGroupAction(idToken, 'Could not cancel the invitation', async ({ uid }) => {
+    await cancelGroupInvite(uid, email);
+    return 'Invitation cancelled.';
+  });
+}
+
+/**
+ * Joins a group the caller's email address was invited to.
+ */
+export async function acceptInvite(input: z.infer<typeof acceptInviteSchema>): Promise<GroupActionState> {
+  const validatedFields = acceptInviteSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input.' };
+  }
+
+  const { idToken, groupId, displayName } = validatedFields.data;
+  return runGroupAction(idToken, 'Could not join the group', async ({ uid, email, emailVerified }) => {
+    const group = await acceptGroupInvite({ userId: uid, email, emailVerified, displayName }, groupId);
+    console.log(`✅ User ${uid} joined group ${groupId}`);
+    return `You joined ${group.name}.`;
+  });
+}
+
+/**
+ * Removes a member from a group. The owner can remove anyone; members can remove themselves.
+ */
+export async function removeMember(input: z.infer<typeof removeMemberSchema>): Promise<GroupActionState> {
+  const validatedFields = removeMemberSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input.' };
+  }
+
+  const { idToken, groupId, memberId } = validatedFields.data;
+  return runGroupAction(idToken, 'Could not update the group', async ({ uid }) => {
+    await removeGroupMember(groupId, memberId, uid);
+    return memberId === uid ? 'You left the group.' : 'Member removed.';
+  });
+}
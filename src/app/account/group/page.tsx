@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { Loader2, Mail, UserMinus, Users } from 'lucide-react';
+import { useCollection, useDoc, useFirebase, useMemoFirebase } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import type { GroupType } from '@/lib/plans';
+import { acceptInvite, cancelInvite, inviteMember, removeMember } from './actions';
+
+interface GroupSummary {
+  ownerId: string;
+  name: string;
+  type: GroupType;
+  seats: number;
+  memberIds: string[];
+  poolSize: number;
+  poolUsed: number;
+}
+
+interface MemberSummary {
+  userId: string;
+  email: string | null;
+  displayName: string | null;
+  role: 'owner' | 'member';
+  generationsUsed: number;
+}
+
+interface InviteSummary {
+  groupId: string;
+  groupName: string;
+  email: string;
+}
+
+export default function GroupPage() {
+  const { user, isUserLoading, firestore } = useFirebase();
+  const { toast } = useToast();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const profileRef = useMemoFirebase(
+    () => (user ? doc(firestore, 'users', user.uid) : null),
+    [firestore, user]
+  );
+  const { data: profile, isLoading: isProfileLoading } = useDoc<{ groupId?: string }>(profileRef);
+  const groupId = profile?.groupId;
+
+  const groupRef = useMemoFirebase(
+    () => (groupId ? doc(firestore, 'groups', groupId) : null),
+    [firestore, groupId]
+  );
+  const { data: group } = useDoc<GroupSummary>(groupRef);
+  const isOwner = !!user && group?.ownerId === user.uid;
+
+  const membersQuery = useMemoFirebase(
+    () => (groupId ? collection(firestore, `groups/${groupId}/members`) : null),
+    [firestore, groupId]
+  );
+  const { data: members } = useCollection<MemberSummary>(membersQuery);
+
+  // The owner sees the invitations they sent; everyone else, the ones sent to their verified address
+  const invitesQuery = useMemoFirebase(
+    () => {
+      if (!user) return null;
+      if (isOwner) return query(collection(firestore, 'groupInvites'), where('groupId', '==', user.uid));
+      return user.email && user.emailVerified ? query(collection(firestore, 'groupInvites'), where('email', '==', user.email.toLowerCase())) : null;
+    },
+    [firestore, user, isOwner]
+  );
+  const { data: invites } = useCollection<InviteSummary>(invitesQuery);
+
+  const runAction = async (key: string, action: (idToken: string) => Promise<{ success: boolean; message: string }>) => {
+    if (!user) return;
+
+    setPendingAction(key);
+    try {
+      const result = await action(await user.getIdToken());
+      toast(result.success
+        ? { title: result.message }
+        : { variant: 'destructive', title: 'Something went wrong', description: result.message });
+      return result.success;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleInvite = async () => {
+    const sent = await runAction('invite', (idToken) => inviteMember({ idToken, email: inviteEmail }));
+    if (sent) setInviteEmail('');
+  };
+
+  if (isUserLoading || isProfileLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto max-w-2xl text-center py-20">
+        <h1 className="text-4xl font-bold gradient-text mb-4">Please Log In</h1>
+        <p className="text-muted-foreground mb-8">You need to be logged in to manage your group.</p>
+        <Button asChild>
+          <Link href="/login">Login</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-2xl py-12 px-4 space-y-6">
+      <div className="text-center">
+        <h1 className="text-4xl font-extrabold tracking-tight gradient-text">Family &amp; Classroom</h1>
+        <p className="mt-2 text-muted-foreground">
+          Everyone in a group shares one pool of generations, used before their own free pages and credits.
+        </p>
+      </div>
+
+      {!isOwner && invites && invites.length > 0 && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Mail className="h-5 w-5 text-primary" />
+              Invitations
+            </CardTitle>
+            {groupId && <CardDescription>Leave your current group to join another one.</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between gap-4">
+                <span className="font-medium">{invite.groupName}</span>
+                <Button
+                  size="sm"
+                  onClick={() => runAction(invite.id, (idToken) => acceptInvite({ idToken, groupId: invite.groupId, displayName: user.displayName }))}
+                  disabled={!!pendingAction || !!groupId}
+                >
+                  {pendingAction === invite.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Join
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {!group ? (
+        <Card className="glass-card text-center">
+          <CardHeader>
+            <Users className="mx-auto h-10 w-10 text-primary" />
+            <CardTitle className="text-2xl font-bold mt-2">You're not in a group yet</CardTitle>
+            <CardDescription>
+              Buy a Family or Classroom plan to share generations, or ask the owner of one to invite you.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link href="/subscribe#group-plans">See Group Plans</Link>
+            </Button>
+          </CardFooter>
+        </Card>
+      ) : (
+        <>
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <Users className="h-5 w-5 text-primary" />
+                {group.name}
+              </CardTitle>
+              <CardDescription>
+                {group.memberIds.length} of {group.seats} seats used
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">{Math.max(group.poolSize - group.poolUsed, 0)}</div>
+              <div className="text-xs text-muted-foreground">
+                of {group.poolSize} shared generations left
+              </div>
+            </CardContent>
+            {isOwner && (
+              <CardFooter>
+                <Button asChild variant="outline" className="w-full">
+                  <Link href="/subscribe#group-plans">Add More Generations</Link>
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-xl">Members</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {members?.map((member) => (
+                <div key={member.id} className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">
+                      {member.displayName || member.email}
+                      {member.role === 'owner' && <span className="ml-2 text-xs text-muted-foreground">Owner</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{member.generationsUsed} generations used</div>
+                  </div>
+                  {isOwner && member.role !== 'owner' && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`Remove ${member.displayName || member.email}`}
+                      onClick={() => runAction(member.id, (idToken) => removeMember({ idToken, groupId: groupId!, memberId: member.id }))}
+                      disabled={!!pendingAction}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+            {!isOwner && (
+              <CardFooter>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => runAction('leave', (idToken) => removeMember({ idToken, groupId: groupId!, memberId: user.uid }))}
+                  disabled={!!pendingAction}
+                >
+                  {pendingAction === 'leave' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Leave Group
+                </Button>
+              </CardFooter>
+            )}
+          </Card>
+
+          {isOwner && (
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle className="text-xl">Invite someone</CardTitle>
+                <CardDescription>They join by signing in with this email address and opening this page.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    type="email"
+                    placeholder="Email address"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    disabled={!!pendingAction}
+                  />
+                  <Button onClick={handleInvite} disabled={!!pendingAction || !inviteEmail.trim()}>
+                    {pendingAction === 'invite' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Invite
+                  </Button>
+                </div>
+                {invites?.map((invite) => (
+                  <div key={invite.id} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="text-muted-foreground">{invite.email} (invited)</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => runAction(invite.id, (idToken) => cancelInvite({ idToken, email: invite.email }))}
+                      disabled={!!pendingAction}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
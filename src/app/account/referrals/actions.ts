@@ -0,0 +1,87 @@
+'use server';
+
+import { z } from 'zod';
+import { AuthError, verifyIdToken } from '@/lib/auth';
+import {
+  ReferralError,
+  attributeReferral,
+  ensureReferralCode,
+  getReferralStats,
+  type ReferralStats,
+  type ReferralStatus,
+} from '@/lib/referrals';
+
+const referralOverviewSchema = z.object({
+  idToken: z.string(),
+  deviceId: z.string().max(64).optional(),
+});
+
+const claimReferralSchema = z.object({
+  idToken: z.string(),
+  code: z.string().trim().min(4).max(32),
+  deviceId: z.string().min(1).max(64),
+});
+
+interface ReferralOverviewState {
+  success: boolean;
+  message: string;
+  stats?: ReferralStats;
+}
+
+interface ClaimReferralState {
+  success: boolean;
+  message: string;
+  status?: ReferralStatus;
+}
+
+/**
+ * The caller's referral code (created on first use) and how their referrals are doing.
+ */
+export async function getReferralOverview(input: z.infer<typeof referralOverviewSchema>): Promise<ReferralOverviewState> {
+  const validatedFields = referralOverviewSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input.' };
+  }
+
+  try {
+    const { uid } = await verifyIdToken(validatedFields.data.idToken);
+    const code = await ensureReferralCode(uid, validatedFields.data.deviceId);
+    return { success: true, message: 'OK', stats: await getReferralStats(uid, code) };
+  } catch (error: any) {
+    if (error instanceof AuthError || error instanceof ReferralError) {
+      return { success: false, message: error.message };
+    }
+    console.error('Loading referral stats failed:', error.message);
+    return { success: false, message: 'Could not load your referrals. Please try again.' };
+  }
+}
+
+/**
+ * Attributes the caller's just-created account to the referral code they signed up with.
+ */
+export async function claimReferral(input: z.infer<typeof claimReferralSchema>): Promise<ClaimReferralState> {
+  const validatedFields = claimReferralSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'This referral link is not valid.' };
+  }
+
+  try {
+    const { uid, email } = await verifyIdToken(validatedFields.data.idToken);
+    const status = await attributeReferral({
+      refereeId: uid,
+      refereeEmail: email,
+      code: validatedFields.data.code,
+      deviceId: validatedFields.data.deviceId,
+    });
+    console.log(`✅ Referral ${validatedFields.data.code} for user ${uid} is ${status}`);
+    return { success: true, message: 'Referral recorded.', status };
+  } catch (error: any) {
+    if (error instanceof AuthError || error instanceof ReferralError) {
+      return { success: false, message: error.message };
+    }
+    console.error('Referral attribution failed:', error.message);
+    return { success: false, message: 'Could not record your referral.' };
+  }
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Copy, Loader2, Users } from 'lucide-react';
+import { useFirebase } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { getDeviceId } from '@/lib/referral-tracking';
+import type { ReferralStats } from '@/lib/referrals';
+import { getReferralOverview } from './actions';
+
+const STAT_LABELS: { key: keyof ReferralStats; label: string }[] = [
+  { key: 'signups', label: 'Signed up' },
+  { key: 'pending', label: 'Yet to create' },
+  { key: 'rewarded', label: 'Rewarded' },
+  { key: 'bonusEarned', label: 'Bonus generations earned' },
+];
+
+export default function ReferralsPage() {
+  const { user, isUserLoading } = useFirebase();
+  const { toast } = useToast();
+  const [stats, setStats] = useState<ReferralStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    (async () => {
+      const result = await getReferralOverview({
+        idToken: await user.getIdToken(),
+        deviceId: getDeviceId() ?? undefined,
+      });
+      if (result.success) {
+        setStats(result.stats!);
+      } else {
+        setError(result.message);
+      }
+    })();
+  }, [user]);
+
+  if (isUserLoading || (user && !stats && !error)) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto max-w-2xl text-center py-20">
+        <h1 className="text-4xl font-bold gradient-text mb-4">Please Log In</h1>
+        <p className="text-muted-foreground mb-8">You need to be logged in to invite friends.</p>
+        <Button asChild>
+          <Link href="/login">Login</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <div className="container mx-auto max-w-2xl text-center py-20">
+        <p className="text-muted-foreground">{error}</p>
+      </div>
+    );
+  }
+
+  const referralLink = `${window.location.origin}/signup?ref=${stats.code}`;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(referralLink);
+    toast({ title: 'Link copied', description: 'Share it with friends and family.' });
+  };
+
+  return (
+    <div className="container mx-auto max-w-2xl py-12 px-4 space-y-6">
+      <div className="text-center">
+        <h1 className="text-4xl font-extrabold tracking-tight gradient-text">Invite Friends</h1>
+        <p className="mt-2 text-muted-foreground">
+          When a friend signs up with your link and creates their first coloring page, you both get{' '}
+          {stats.bonusPerReferral} bonus generations.
+        </p>
+      </div>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Your referral link
+          </CardTitle>
+          <CardDescription>Bonus generations are used after your free ones and never expire.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Input readOnly value={referralLink} onFocus={(e) => e.target.select()} />
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy Link
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle className="text-xl">Your referrals</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+          {STAT_LABELS.map(({ key, label }) => (
+            <div key={key}>
+              <div className="text-3xl font-bold">{stats[key]}</div>
+              <div className="text-xs text-muted-foreground">{label}</div>
+            </div>
+          ))}
+        </CardContent>
+        {stats.rejected > 0 && (
+          <CardFooter>
+            <p className="text-xs text-muted-foreground">
+              {stats.rejected} signup{stats.rejected === 1 ? '' : 's'} didn't qualify (for example, accounts made on your own device).
+            </p>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
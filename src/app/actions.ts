@@ -5,17 +5,22 @@ import { type FormState, initialFormState } from './types';
 /**
  * Server action that proxies to API route
  * This avoids bundling firebase-admin into client code
+ * Returns the queued job ID; the client follows the job document for the result
+ * The caller's Firebase ID token is forwarded so the API route can authenticate them
  */
 export async function generateImageAction(prevState: FormState, formData: FormData): Promise<FormState> {
   const prompt = formData.get('prompt') as string;
-  const userId = formData.get('userId') as string;
+  const idToken = formData.get('idToken') as string;
+  const style = formData.get('style') as string | null;
+  const difficulty = formData.get('difficulty') as string | null;
+  const pageFormat = formData.get('pageFormat') as string | null;
 
   if (!prompt || prompt.length < 3) {
     return {
       success: false,
       message: 'Prompt must be at least 3 characters long.',
-      image: null,
       prompt: null,
+      jobId: null,
     };
   }
 
@@ -25,8 +30,9 @@ export async function generateImageAction(prevState: FormState, formData: FormDa
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
       },
-      body: JSON.stringify({ prompt, userId }),
+      body: JSON.stringify({ prompt, ...(style && { style }), ...(difficulty && { difficulty }), ...(pageFormat && { pageFormat }) }),
     });
 
     const result = await response.json();
@@ -35,28 +41,46 @@ export async function generateImageAction(prevState: FormState, formData: FormDa
       return {
         success: false,
         message: result.message || 'Something went wrong.',
-        image: null,
         prompt: prompt,
+        jobId: null,
+        errorCode: result.code,
       };
     }
 
     return {
       success: true,
       message: result.message,
-      image: result.image,
       prompt: result.prompt,
+      jobId: result.jobId,
     };
   } catch (error: any) {
     console.error('Error in generateImageAction:', error);
     return {
       success: false,
       message: `❌ ${error.message || 'Something went wrong. Please try again.'}`,
-      image: null,
       prompt: prompt,
+      jobId: null,
     };
   }
 }
 
+/**
+ * Asks the API route to fail the caller's generation jobs that have stopped moving.
+ * Proxied for the same reason as generateImageAction.
+ */
+export async function failStaleJobsAction(idToken: string): Promise<void> {
+  try {
+    await fetch(`${process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:9000'}/api/generate-image/stale-jobs`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error in failStaleJobsAction:', error);
+  }
+}
+
 export const getImageDataUri = async (url: string) => {
     const response = await fetch(url);
     const blob = await response.blob();
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { refundPayment } from '@/app/admin/refunds/actions';
+import { createCheckout } from '@/app/subscribe/actions';
+import { getRazorpayClient } from '@/lib/razorpay';
+import { listDocs, readDoc } from '@/test/fake-firebase-admin';
+import { adminIdToken, deliverWebhook, idToken, seedUser, verifyPayment } from '@/test/payments';
+
+async function buyPro(uid: string) {
+  const order = await createCheckout({ idToken: idToken(uid), productId: 'pro_lifetime' });
+  if (order.checkout?.type !== 'completed') throw new Error(`Checkout did not complete: ${order.message}`);
+  await verifyPayment(uid, order.checkout.payload);
+  return { orderId: order.orderId!, amount: order.amount!, paymentId: order.checkout.payload.razorpay_payment_id };
+}
+
+describe('refundPayment', () => {
+  it('refunds in full through Razorpay and revokes Pro', async () => {
+    seedUser('alice');
+    const { orderId, paymentId } = await buyPro('alice');
+
+    const result = await refundPayment({ idToken: adminIdToken('staff'), orderId, reason: 'Customer request' });
+
+    expect(result.success).toBe(true);
+    expect(await getRazorpayClient().payments.fetch(paymentId)).toMatchObject({ status: 'refunded' });
+    expect(readDoc(`payments/${orderId}`)).toMatchObject({ status: 'refunded', refundId: result.refundId });
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: false, proRefundId: result.refundId });
+    expect(listDocs('users/alice/notifications')).toContainEqual(expect.objectContaining({ type: 'refund' }));
+    expect(listDocs('auditLog')).toContainEqual(expect.objectContaining({ action: 'payment.refunded', actorId: 'staff' }));
+  });
+
+  it('leaves access alone for a partial refund', async () => {
+    seedUser('alice');
+    const { orderId, amount } = await buyPro('alice');
+
+    const result = await refundPayment({ idToken: adminIdToken('staff'), orderId, amount: Math.floor(amount / 2), reason: 'Goodwill' });
+
+    expect(result.success).toBe(true);
+    expect(readDoc(`payments/${orderId}`)).toMatchObject({ status: 'partially_refunded', amountRefunded: Math.floor(amount / 2) });
+    expect(readDoc('users/alice')?.isSubscribed).toBe(true);
+  });
+
+  it('records the refund once when its webhook follows', async () => {
+    seedUser('alice');
+    const { orderId, paymentId } = await buyPro('alice');
+    const result = await refundPayment({ idToken: adminIdToken('staff'), orderId, reason: 'Customer request' });
+
+    const { status } = await deliverWebhook('refund.processed', {
+      refund: { entity: { id: result.refundId, payment_id: paymentId, amount: readDoc(`payments/${orderId}`)?.amount } },
+      payment: { entity: await getRazorpayClient().payments.fetch(paymentId) },
+    });
+
+    expect(status).toBe(200);
+    expect(readDoc(`payments/${orderId}`)?.refunds).toHaveLength(1);
+  });
+
+  it('is only available to admins', async () => {
+    seedUser('alice');
+    const { orderId } = await buyPro('alice');
+
+    const result = await refundPayment({ idToken: idToken('alice'), orderId, reason: 'Please' });
+
+    expect(result.success).toBe(false);
+    expect(readDoc(`payments/${orderId}`)?.status).toBe('paid');
+  });
+});
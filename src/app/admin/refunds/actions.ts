@@ -0,0 +1,87 @@
+'use server';
+
+import { z } from 'zod';
+import { AuthError, verifyAdminIdToken } from '@/lib/auth';
+import { getPaymentRecord, recordRefund } from '@/lib/payments';
+import { getPaymentGateway } from '@/lib/payment-gateways';
+
+const refundSchema = z.object({
+  idToken: z.string(),
+  orderId: z.string().min(1),
+  // In the payment's smallest currency unit (paise, cents); refunds whatever has not been refunded yet if omitted
+  amount: z.number().int().positive().optional(),
+  reason: z.string().trim().min(3).max(200),
+});
+
+interface RefundState {
+  success: boolean;
+  message: string;
+  refundId?: string;
+}
+
+/**
+ * Refunds a payment through the gateway that took it and applies the refund policy
+ * right away. The gateway's refund webhook for the same refund is then a no-op.
+ */
+export async function refundPayment(input: z.infer<typeof refundSchema>): Promise<RefundState> {
+  const validatedFields = refundSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input for refund.' };
+  }
+
+  const { idToken, orderId, amount, reason } = validatedFields.data;
+
+  let adminId: string;
+  try {
+    ({ uid: adminId } = await verifyAdminIdToken(idToken));
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return { success: false, message: error.message };
+    }
+    throw error;
+  }
+
+  try {
+    const payment = await getPaymentRecord(orderId);
+
+    if (!payment || !payment.paymentId || (payment.status !== 'paid' && payment.status !== 'partially_refunded')) {
+      return { success: false, message: 'Only paid orders can be refunded.' };
+    }
+    if (payment.gateway === 'coupon') {
+      return { success: false, message: 'This order was paid entirely with a coupon.' };
+    }
+
+    const refundable = payment.amount - (payment.amountRefunded ?? 0);
+    const refundAmount = amount ?? refundable;
+    if (refundAmount > refundable) {
+      return { success: false, message: `At most ${payment.currency} ${(refundable / 100).toFixed(2)} can still be refunded.` };
+    }
+
+    const refund = await getPaymentGateway(payment.gateway).refund(payment.paymentId, refundAmount, {
+      reason,
+      refunded_by: adminId,
+    });
+
+    const result = await recordRefund({
+      orderId,
+      userId: payment.userId,
+      paymentId: payment.paymentId,
+      refundId: refund.refundId,
+      amount: refundAmount,
+      paymentAmount: payment.amount,
+      source: 'admin',
+      actorId: adminId,
+      reason,
+    });
+
+    console.log(`✅ Admin ${adminId} refunded ${refundAmount} on order ${orderId} (${result.change})`);
+    return { success: true, message: `Refund ${refund.refundId} issued.`, refundId: refund.refundId };
+  } catch (error: any) {
+    console.error('Refund failed:', error.error ? JSON.stringify(error.error) : error.message);
+    return {
+      success: false,
+      message: error.error?.description || error.message || 'An unexpected error occurred.',
+    };
+  }
+}
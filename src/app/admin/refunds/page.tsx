@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Loader2, Undo2 } from 'lucide-react';
+import { useFirebase } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { refundPayment } from './actions';
+
+/**
+ * Staff-only refund form. Access is enforced by the server action (admin custom claim).
+ */
+export default function AdminRefundsPage() {
+  const { user, isUserLoading } = useFirebase();
+  const { toast } = useToast();
+  const [orderId, setOrderId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  const handleRefund = async () => {
+    if (!user) return;
+
+    setIsRefunding(true);
+    const result = await refundPayment({
+      idToken: await user.getIdToken(),
+      orderId: orderId.trim(),
+      amount: amount ? Math.round(Number(amount) * 100) : undefined,
+      reason,
+    });
+    setIsRefunding(false);
+
+    toast({
+      variant: result.success ? 'default' : 'destructive',
+      title: result.success ? 'Refund Issued' : 'Refund Failed',
+      description: result.message,
+    });
+    if (result.success) {
+      setOrderId('');
+      setAmount('');
+      setReason('');
+    }
+  };
+
+  if (isUserLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="text-center p-8">
+        <h1 className="text-2xl font-bold">Please log in.</h1>
+        <Button asChild className="mt-4">
+          <Link href="/login">Login</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-lg px-4 py-8">
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Refund a Payment</CardTitle>
+          <CardDescription>
+            A full refund revokes Pro or removes the purchased credits. Partial refunds leave access unchanged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-order">Order ID</Label>
+            <Input id="refund-order" value={orderId} onChange={(e) => setOrderId(e.target.value)} placeholder="order_..." />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount in ₹ (leave empty for a full refund)</Label>
+            <Input id="refund-amount" type="number" min="1" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Input id="refund-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button variant="destructive" onClick={handleRefund} disabled={isRefunding || !orderId.trim() || reason.trim().length < 3}>
+            {isRefunding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+            Issue Refund
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,24 +1,29 @@
 // app/api/generate-image/route.ts
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { z } from 'zod';
-import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
-import { generateColoringPageFromPrompt } from '@/ai/flows/generate-coloring-page-from-prompt';
+import { AuthError, authErrorResponse, requireUser } from '@/lib/auth';
+import { createGenerationJob, failStaleGenerationJobs, runGenerationJob } from '@/lib/generation-jobs';
+import { QuotaError } from '@/lib/quota';
+import { DEFAULT_RESOLUTION, RESOLUTIONS } from '@/lib/entitlements';
+import { COLORING_STYLES, DEFAULT_STYLE } from '@/lib/coloring-styles';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS } from '@/lib/difficulty';
+import { DEFAULT_PAGE_FORMAT, PAGE_FORMATS } from '@/lib/page-formats';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
 const schema = z.object({
   prompt: z.string().min(3),
-  userId: z.string(),
+  resolution: z.enum(RESOLUTIONS).default(DEFAULT_RESOLUTION),
+  style: z.enum(COLORING_STYLES).default(DEFAULT_STYLE),
+  difficulty: z.enum(DIFFICULTY_LEVELS).default(DEFAULT_DIFFICULTY),
+  pageFormat: z.enum(PAGE_FORMATS).default(DEFAULT_PAGE_FORMAT),
 });
 
-const FREE_GENERATION_LIMIT = 5;
-
 export async function POST(request: NextRequest) {
   try {
-    // Get initialized Firebase instances using centralized helper
-    const admin = getFirebaseAdmin();
-    const db = getDb();
+    // The caller's uid comes from their verified ID token, never from the body
+    const { uid: userId } = await requireUser(request);
 
     const body = await request.json();
     const validatedFields = schema.safeParse(body);
@@ -33,61 +38,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { prompt, userId } = validatedFields.data;
-    const FieldValue = admin.firestore.FieldValue;
-
-    // 1. Check user's generation limit
-    const userDocRef = db.collection('users').doc(userId);
-    const userDoc = await userDocRef.get();
-
-    if (!userDoc.exists) {
-      return NextResponse.json(
-        { success: false, message: 'User profile not found.' },
-        { status: 404 }
-      );
-    }
-
-    const userData = userDoc.data();
-    const isPro = userData?.isSubscribed === true;
-    const generationCount = userData?.generationCount || 0;
-
-    if (!isPro && generationCount >= FREE_GENERATION_LIMIT) {
-      return NextResponse.json(
-        { success: false, message: 'Free generation limit reached. Please upgrade to Pro.' },
-        { status: 403 }
-      );
-    }
-
-    // 2. Call the AI flow to generate the image
-    const result = await generateColoringPageFromPrompt({ prompt, userId });
+    const { prompt, ...options } = validatedFields.data;
 
-    // 3. Save image to user's subcollection and increment count
-    const imageRecord = {
-      imageUrl: result.imageUrl,
-      prompt: prompt,
-      createdAt: FieldValue.serverTimestamp(),
-      userId: userId,
-    };
-    await db.collection(`users/${userId}/generatedImages`).add(imageRecord);
+    // 1. Give back generations held by jobs whose instance died, so they don't count against this one
+    await failStaleGenerationJobs(userId).catch((error) => {
+      console.error('Could not fail stale generation jobs:', error);
+    });
 
-    // Only increment if the user is not a Pro member
-    if (!isPro) {
-      await userDocRef.update({
-        generationCount: FieldValue.increment(1),
-      });
-    }
+    // 2. Reserve quota and queue the job atomically, then let it run after the response is sent
+    const jobId = await createGenerationJob(userId, prompt, options);
+    after(() => runGenerationJob(userId, jobId));
 
-    // 4. Return success
-    return NextResponse.json({
-      success: true,
-      message: '✅ Coloring page ready!',
-      image: {
-        ...result,
+    // 3. Return the job handle; the client follows progress on the job document
+    return NextResponse.json(
+      {
+        success: true,
+        message: '✨ Your coloring page is being generated...',
+        jobId,
         prompt: prompt,
       },
-      prompt: prompt,
-    });
+      { status: 202 }
+    );
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    if (error instanceof QuotaError) {
+      return NextResponse.json(
+        { success: false, code: error.code, message: error.message },
+        { status: error.status }
+      );
+    }
     console.error('Error in generate-image API:', error);
     return NextResponse.json(
       {
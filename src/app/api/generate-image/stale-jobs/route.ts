@@ -0,0 +1,30 @@
+// app/api/generate-image/stale-jobs/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, authErrorResponse, requireUser } from '@/lib/auth';
+import { failStaleGenerationJobs } from '@/lib/generation-jobs';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Fails the caller's jobs that have overrun the job timeout, giving their generations back.
+ * The client calls this when a job it is following stops moving.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { uid: userId } = await requireUser(request);
+
+    const failed = await failStaleGenerationJobs(userId);
+
+    return NextResponse.json({ success: true, failed });
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('Error failing stale generation jobs:', error);
+    return NextResponse.json(
+      { success: false, message: 'Something went wrong. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+// app/api/invoices/[orderId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthError, authErrorResponse, requireUser } from '@/lib/auth';
+import { getInvoice, renderInvoicePdf } from '@/lib/invoices';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Downloads one of the caller's invoices as a PDF.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ orderId: string }> }) {
+  try {
+    const { uid: userId } = await requireUser(request);
+    const { orderId } = await params;
+
+    // Invoices are looked up under the caller's own profile, so other users' are unreachable
+    const invoice = await getInvoice(userId, orderId);
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, message: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(renderInvoicePdf(invoice), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${invoice.invoiceNumber}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error);
+    }
+    console.error('❌ Invoice download failed:', error);
+    return NextResponse.json(
+      { success: false, message: 'Could not generate the invoice.' },
+      { status: 500 }
+    );
+  }
+}
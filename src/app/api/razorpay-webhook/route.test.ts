@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { createCheckout } from '@/app/subscribe/actions';
+import { getRazorpayClient } from '@/lib/razorpay';
+import { readDoc, seedDoc, Timestamp } from '@/test/fake-firebase-admin';
+import { deliverWebhook, idToken, seedUser } from '@/test/payments';
+
+/**
+ * Creates an order and pays it in the stub, without the browser ever verifying it.
+ * @returns The captured payment entity, as Razorpay puts it in webhooks
+ */
+async function payWithoutVerifying(uid: string) {
+  const order = await createCheckout({ idToken: idToken(uid), productId: 'pro_lifetime' });
+  if (order.checkout?.type !== 'completed') throw new Error(`Checkout did not complete: ${order.message}`);
+  return getRazorpayClient().payments.fetch(order.checkout.payload.razorpay_payment_id);
+}
+
+describe('POST /api/razorpay-webhook', () => {
+  it('applies a captured payment the browser never verified', async () => {
+    seedUser('alice');
+    const payment = await payWithoutVerifying('alice');
+
+    const { status } = await deliverWebhook('payment.captured', { payment: { entity: payment } });
+
+    expect(status).toBe(200);
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: true, plan: 'pro_lifetime' });
+    expect(readDoc(`payments/${payment.order_id}`)?.status).toBe('paid');
+  });
+
+  it('credits a legacy order to the account on the order, not the one in the payment notes', async () => {
+    seedUser('alice');
+    seedUser('mallory');
+    // Orders from before the payments ledger are only known to Razorpay
+    const order = await getRazorpayClient().orders.create({ amount: 1000, currency: 'INR', receipt: 'legacy', notes: { firebase_uid: 'alice' } });
+    const payment = { id: 'pay_legacy', order_id: order.id, amount: 1000, currency: 'INR', status: 'captured', notes: { firebase_uid: 'mallory' } };
+
+    await deliverWebhook('payment.captured', { payment: { entity: payment } });
+
+    expect(readDoc('users/alice')?.isSubscribed).toBe(true);
+    expect(readDoc('users/mallory')?.isSubscribed).toBe(false);
+  });
+
+  it('processes a redelivered event only once', async () => {
+    seedUser('alice');
+    const payment = await payWithoutVerifying('alice');
+
+    await deliverWebhook('payment.captured', { payment: { entity: payment } }, { eventId: 'evt_1' });
+    const redelivery = await deliverWebhook('payment.captured', { payment: { entity: payment } }, { eventId: 'evt_1' });
+
+    expect(redelivery).toMatchObject({ status: 200, body: { duplicate: true } });
+    expect(readDoc('razorpayWebhookEvents/evt_1')).toMatchObject({ status: 'processed', attempts: 1, outcome: 'upgraded' });
+  });
+
+  it('asks for a retry while another delivery is processing the event', async () => {
+    seedUser('alice');
+    const payment = await payWithoutVerifying('alice');
+    seedDoc('razorpayWebhookEvents/evt_1', { event: 'payment.captured', status: 'processing', attempts: 1, claimedAt: Timestamp.now() });
+
+    const { status } = await deliverWebhook('payment.captured', { payment: { entity: payment } }, { eventId: 'evt_1' });
+
+    expect(status).toBe(409);
+    expect(readDoc('users/alice')?.isSubscribed).toBe(false);
+  });
+
+  it('takes over an event whose handler crashed mid-processing', async () => {
+    seedUser('alice');
+    const payment = await payWithoutVerifying('alice');
+    seedDoc('razorpayWebhookEvents/evt_1', {
+      event: 'payment.captured',
+      status: 'processing',
+      attempts: 1,
+      claimedAt: Timestamp.fromMillis(Date.now() - 60 * 60 * 1000),
+    });
+
+    const { status } = await deliverWebhook('payment.captured', { payment: { entity: payment } }, { eventId: 'evt_1' });
+
+    expect(status).toBe(200);
+    expect(readDoc('razorpayWebhookEvents/evt_1')).toMatchObject({ status: 'processed', attempts: 2 });
+    expect(readDoc('users/alice')?.isSubscribed).toBe(true);
+  });
+
+  it('rejects an event with a bad signature', async () => {
+    seedUser('alice');
+    const payment = await payWithoutVerifying('alice');
+
+    const { status } = await deliverWebhook('payment.captured', { payment: { entity: payment } }, { signature: 'bad' });
+
+    expect(status).toBe(400);
+    expect(readDoc('users/alice')?.isSubscribed).toBe(false);
+  });
+
+  it('records a failed attempt without blocking a later capture', async () => {
+    seedUser('alice');
+    const payment = await payWithoutVerifying('alice');
+
+    await deliverWebhook('payment.failed', { payment: { entity: { ...payment, status: 'failed', error_description: 'Card declined' } } });
+    expect(readDoc(`payments/${payment.order_id}`)).toMatchObject({ status: 'failed', failureReason: 'Card declined' });
+
+    await deliverWebhook('payment.captured', { payment: { entity: payment } });
+    expect(readDoc(`payments/${payment.order_id}`)?.status).toBe('paid');
+    expect(readDoc('users/alice')?.isSubscribed).toBe(true);
+  });
+});
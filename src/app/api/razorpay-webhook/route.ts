@@ -0,0 +1,65 @@
+// app/api/razorpay-webhook/route.ts
+import { NextRequest } from 'next/server';
+import { recordSubscriptionCharge } from '@/lib/payments';
+import { getPaymentGateway } from '@/lib/payment-gateways';
+import { processGatewayWebhook } from '@/lib/payment-gateways/webhooks';
+import { SubscriptionError, getSubscriptionRecord, syncSubscription } from '@/lib/subscriptions';
+
+// Force dynamic rendering and Node.js runtime for Firebase Admin
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Server-to-server Razorpay webhook.
+ *
+ * One-off payments and refunds go through the shared gateway pipeline; recurring
+ * plans, which only Razorpay sells, are kept in sync here as they renew or end.
+ */
+
+async function handleSubscriptionUpdated(payload: any) {
+  const subscription = payload.subscription?.entity;
+
+  try {
+    const userId = await syncSubscription(subscription);
+    console.log(`✅ Subscription ${subscription.id} for user ${userId} is now ${subscription.status}`);
+    return { outcome: 'synced', userId, subscriptionStatus: subscription.status };
+  } catch (error: any) {
+    // Subscriptions created outside this app can't be matched; don't make Razorpay retry
+    if (error instanceof SubscriptionError) {
+      console.error(`❌ ${error.message}`);
+      return { outcome: 'unmatched' };
+    }
+    throw error;
+  }
+}
+
+async function handleSubscriptionCharged(payload: any) {
+  const result = await handleSubscriptionUpdated(payload);
+  const subscription = payload.subscription?.entity;
+  const payment = payload.payment?.entity;
+  const record = await getSubscriptionRecord(subscription.id);
+
+  if (record && payment) {
+    await recordSubscriptionCharge({
+      orderId: payment.order_id ?? payment.id,
+      paymentId: payment.id,
+      subscriptionId: subscription.id,
+      userId: record.userId,
+      plan: record.plan,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+  }
+  return result;
+}
+
+export async function POST(request: NextRequest) {
+  return processGatewayWebhook(getPaymentGateway('razorpay'), request, {
+    'subscription.charged': handleSubscriptionCharged,
+    'subscription.activated': handleSubscriptionUpdated,
+    'subscription.pending': handleSubscriptionUpdated,
+    'subscription.halted': handleSubscriptionUpdated,
+    'subscription.cancelled': handleSubscriptionUpdated,
+    'subscription.completed': handleSubscriptionUpdated,
+  });
+}
@@ -0,0 +1,27 @@
+// app/api/stripe-webhook/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { GatewayError, getPaymentGateway } from '@/lib/payment-gateways';
+import { processGatewayWebhook } from '@/lib/payment-gateways/webhooks';
+
+// Force dynamic rendering and Node.js runtime for Firebase Admin
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * Server-to-server Stripe webhook, for Checkout payments and refunds.
+ * Subscribe the endpoint to `checkout.session.*` and `refund.*` events.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    return await processGatewayWebhook(getPaymentGateway('stripe'), request);
+  } catch (error: any) {
+    if (error instanceof GatewayError) {
+      console.error(`❌ ${error.message}`);
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+    throw error;
+  }
+}
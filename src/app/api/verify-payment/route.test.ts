@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCheckout } from '@/app/subscribe/actions';
+import { CREDIT_PACKS } from '@/lib/plans';
+import { listDocs, readDoc, seedDoc } from '@/test/fake-firebase-admin';
+import { idToken, seedUser, verifyPayment } from '@/test/payments';
+
+async function checkout(uid: string, productId: 'pro_lifetime' | 'credits_20' | 'credits_50', couponCode?: string) {
+  const order = await createCheckout({ idToken: idToken(uid), productId, couponCode });
+  if (order.checkout?.type !== 'completed') throw new Error(`Checkout did not complete: ${order.message}`);
+  return { orderId: order.orderId!, payload: order.checkout.payload };
+}
+
+describe('POST /api/verify-payment', () => {
+  it('upgrades the buyer to Pro and issues an invoice', async () => {
+    seedUser('alice');
+    const { orderId, payload } = await checkout('alice', 'pro_lifetime');
+
+    const { status, body } = await verifyPayment('alice', payload);
+
+    expect(status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: true, plan: 'pro_lifetime', proOrderId: orderId });
+    expect(readDoc(`payments/${orderId}`)).toMatchObject({ status: 'paid', paymentId: payload.razorpay_payment_id });
+    expect(readDoc(`users/alice/invoices/${orderId}`)).toMatchObject({ orderId, invoiceNumber: expect.any(String) });
+  });
+
+  it('applies a payment only once when verified again', async () => {
+    seedUser('alice');
+    const { payload } = await checkout('alice', 'credits_20');
+
+    await verifyPayment('alice', payload);
+    const again = await verifyPayment('alice', payload);
+
+    expect(again.status).toBe(200);
+    expect(readDoc('users/alice')?.credits).toBe(CREDIT_PACKS.credits_20.credits);
+    expect(listDocs('users/alice/invoices')).toHaveLength(1);
+  });
+
+  it('redeems the coupon used on the order in the same transaction', async () => {
+    seedUser('alice');
+    seedDoc('coupons/BONUS', { type: 'extra_credits', value: 5, active: true, expiresAt: null, maxRedemptions: null, perUserLimit: 1, redemptionCount: 0 });
+    const { orderId, payload } = await checkout('alice', 'credits_20', 'BONUS');
+
+    const { status } = await verifyPayment('alice', payload);
+
+    expect(status).toBe(200);
+    expect(readDoc('users/alice')?.credits).toBe(CREDIT_PACKS.credits_20.credits + 5);
+    expect(readDoc('coupons/BONUS')?.redemptionCount).toBe(1);
+    expect(readDoc(`users/alice/invoices/${orderId}`)).toBeDefined();
+  });
+
+  it('refuses to apply an order to anyone but its buyer', async () => {
+    seedUser('alice');
+    seedUser('mallory');
+    const { payload } = await checkout('alice', 'pro_lifetime');
+
+    const { status } = await verifyPayment('mallory', payload);
+
+    expect(status).toBe(403);
+    expect(readDoc('users/mallory')?.isSubscribed).toBe(false);
+  });
+
+  it('rejects a tampered signature', async () => {
+    seedUser('alice');
+    const { orderId, payload } = await checkout('alice', 'pro_lifetime');
+
+    const { status } = await verifyPayment('alice', { ...payload, razorpay_signature: '0'.repeat(64) });
+
+    expect(status).toBe(400);
+    expect(readDoc(`payments/${orderId}`)?.status).toBe('created');
+    expect(readDoc('users/alice')?.isSubscribed).toBe(false);
+  });
+
+  it('refuses the fake gateway unless it is enabled', async () => {
+    seedUser('alice');
+    vi.stubEnv('NODE_ENV', 'production');
+    try {
+      const { status, body } = await verifyPayment('alice', { gateway: 'fake', orderId: 'order_fake1', paymentId: 'pay_fake1' });
+
+      expect(status).toBe(400);
+      expect(body.message).toBe('Unknown payment gateway.');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('will not let one payment pay for a second order', async () => {
+    seedUser('alice');
+    const first = await checkout('alice', 'pro_lifetime');
+    const second = await checkout('alice', 'pro_lifetime');
+    await verifyPayment('alice', first.payload);
+
+    const { status } = await verifyPayment('alice', {
+      ...second.payload,
+      razorpay_payment_id: first.payload.razorpay_payment_id,
+    });
+
+    // The signature covers the payment ID, so a replay fails there or on the order check
+    expect(status).toBeGreaterThanOrEqual(400);
+    expect(readDoc(`payments/${second.orderId}`)?.status).toBe('created');
+  });
+});
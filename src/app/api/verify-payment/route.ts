@@ -1,78 +1,186 @@
 // app/api/verify-payment/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { AuthError, authErrorResponse, requireUser } from '@/lib/auth';
+import { PaymentStateError, completePayment, findConflictingPayment, getPaymentRecord } from '@/lib/payments';
+import { isCreditPackId, isGroupPlanId } from '@/lib/plans';
+import { getRazorpayKeySecret, verifyCheckoutSignature } from '@/lib/razorpay';
+import { GatewayError, getPaymentGateway, isPaymentGatewayName } from '@/lib/payment-gateways';
+import { activateSubscription, getSubscriptionRecord } from '@/lib/subscriptions';
 
 // Force dynamic rendering and Node.js runtime for Firebase Admin
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
+/**
+ * Activates a recurring plan after its first payment was authorised in Checkout.
+ */
+async function verifySubscription(userId: string, subscriptionId: string) {
+  const subscription = await getSubscriptionRecord(subscriptionId);
+
+  if (!subscription) {
+    console.error(`❌ Subscription ${subscriptionId} not found`);
+    return NextResponse.json(
+      { success: false, message: 'Unknown subscription' },
+      { status: 404 }
+    );
+  }
+
+  if (subscription.userId !== userId) {
+    console.error(`❌ Subscription ${subscriptionId} belongs to another user`);
+    return NextResponse.json(
+      { success: false, message: 'This subscription does not belong to you' },
+      { status: 403 }
+    );
+  }
+
+  await activateSubscription(subscriptionId);
+  console.log(`✅ User ${userId} subscribed to ${subscription.plan}`);
+
+  return NextResponse.json({
+    success: true,
+    message: 'Subscription activated and user upgraded to Pro!',
+  });
+}
+
 export async function POST(request: NextRequest) {
   try {
     console.log('🚀 Payment verification endpoint called');
 
-    // Get initialized Firebase instances using centralized helper
+    // Only the authenticated caller can be upgraded; the uid is never taken from the body
+    const { uid: userId } = await requireUser(request);
+
+    // Get initialized Firebase instance using centralized helper
     const admin = getFirebaseAdmin();
-    const db = getDb();
 
     console.log(`📊 Firebase Admin apps: ${admin.apps.length}`);
 
     const body = await request.json();
-    const {
-      razorpay_order_id,
-      razorpay_payment_id,
-      razorpay_signature,
-      userId,
-    } = body;
 
     console.log('💳 Payment verification started for user:', userId);
 
-    // Validate required fields
-    if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature || !userId) {
-      console.error('❌ Missing required fields');
+    // Recurring plans are always Razorpay Subscriptions
+    if (body.razorpay_subscription_id) {
+      const { razorpay_subscription_id, razorpay_payment_id, razorpay_signature } = body;
+      const razorpaySecret = getRazorpayKeySecret();
+
+      if (!razorpaySecret) {
+        console.error('❌ RAZORPAY_KEY_SECRET not found in environment');
+        return NextResponse.json(
+          { success: false, message: 'Server configuration error' },
+          { status: 500 }
+        );
+      }
+
+      if (!razorpay_payment_id || !razorpay_signature ||
+          !verifyCheckoutSignature(`${razorpay_payment_id}|${razorpay_subscription_id}`, razorpay_signature, razorpaySecret)) {
+        console.error('❌ Invalid payment signature');
+        return NextResponse.json(
+          { success: false, message: 'Invalid payment signature' },
+          { status: 400 }
+        );
+      }
+
+      return verifySubscription(userId, razorpay_subscription_id);
+    }
+
+    const gatewayName = body.gateway ?? 'razorpay';
+    if (!isPaymentGatewayName(gatewayName)) {
       return NextResponse.json(
-        { success: false, message: 'Missing required fields' },
+        { success: false, message: 'Unknown payment gateway' },
         { status: 400 }
       );
     }
 
-    // Verify Razorpay signature
-    const razorpaySecret = process.env.RAZORPAY_KEY_SECRET;
-    
-    if (!razorpaySecret) {
-      console.error('❌ RAZORPAY_KEY_SECRET not found in environment');
+    // The gateway checks the checkout response and reports the payment as it sees it
+    // (getPaymentGateway refuses the fake gateway unless it is enabled)
+    const verified = await getPaymentGateway(gatewayName).verifyPayment(body);
+    const { orderId, paymentId } = verified;
+
+    console.log(`✅ Payment ${paymentId} verified with ${gatewayName}`);
+
+    if (verified.userId !== userId) {
+      console.error(`❌ Order ${orderId} was created for ${verified.userId}, not ${userId}`);
+      return NextResponse.json(
+        { success: false, message: 'This order does not belong to you' },
+        { status: 403 }
+      );
+    }
+
+    if (verified.status !== 'paid') {
+      console.error(`❌ Payment ${paymentId} for order ${orderId} has not been captured`);
+      return NextResponse.json(
+        { success: false, message: 'Your payment has not been completed yet. It will be applied as soon as it is.' },
+        { status: 409 }
+      );
+    }
+
+    // Check the order against our payments ledger before upgrading anyone
+    const payment = await getPaymentRecord(orderId);
+
+    if (!payment || payment.gateway !== gatewayName) {
+      console.error(`❌ Order ${orderId} not found in payments ledger`);
       return NextResponse.json(
-        { success: false, message: 'Server configuration error' },
-        { status: 500 }
+        { success: false, message: 'Unknown order' },
+        { status: 404 }
       );
     }
 
-    const generatedSignature = crypto
-      .createHmac('sha256', razorpaySecret)
-      .update(`${razorpay_order_id}|${razorpay_payment_id}`)
-      .digest('hex');
+    if (payment.userId !== userId) {
+      console.error(`❌ Order ${orderId} belongs to another user`);
+      return NextResponse.json(
+        { success: false, message: 'This order does not belong to you' },
+        { status: 403 }
+      );
+    }
 
-    if (generatedSignature !== razorpay_signature) {
-      console.error('❌ Invalid payment signature');
+    // The price and any coupon's discount were fixed in the ledger when the order was created
+    // from the catalog; the payment must be for exactly that, even if the catalog changed since
+    if (verified.amount !== payment.amount || verified.currency !== payment.currency) {
+      console.error(`❌ Order ${orderId} paid ${verified.amount} ${verified.currency}, but was created for ${payment.amount} ${payment.currency}`);
       return NextResponse.json(
-        { success: false, message: 'Invalid payment signature' },
+        { success: false, message: 'Order amount does not match the plan price' },
         { status: 400 }
       );
     }
 
-    console.log('✅ Payment signature verified');
+    // A payment can only ever pay for the order it was made against
+    const conflict = await findConflictingPayment(paymentId, orderId);
+    if (conflict) {
+      console.error(`❌ Payment ${paymentId} was already used for order ${conflict.orderId} (user ${conflict.userId})`);
+      return NextResponse.json(
+        { success: false, message: 'This payment has already been used' },
+        { status: 409 }
+      );
+    }
 
-    // Payment verified ✅ — Update Firestore
-    const FieldValue = admin.firestore.FieldValue;
-    console.log('✅ Got Firestore instance, updating user...');
-    const userRef = db.collection('users').doc(userId);
+    // Payment verified ✅ — Mark paid and upgrade or add credits (shared with the gateway webhooks)
+    await completePayment(orderId, paymentId);
 
-    await userRef.update({
-      isSubscribed: true,
-      razorpayOrderId: razorpay_order_id,
-      razorpayPaymentId: razorpay_payment_id,
-      upgradedAt: FieldValue.serverTimestamp(),
-    });
+    if (payment.gift) {
+      console.log(`✅ User ${userId} bought ${payment.plan} as gift ${payment.gift.code}`);
+      return NextResponse.json({
+        success: true,
+        message: 'Payment verified. Your gift is ready to send!',
+        giftCode: payment.gift.code,
+      });
+    }
+
+    if (isCreditPackId(payment.plan)) {
+      console.log(`✅ User ${userId} bought ${payment.plan}`);
+      return NextResponse.json({
+        success: true,
+        message: 'Payment verified and credits added!',
+      });
+    }
+
+    if (isGroupPlanId(payment.plan)) {
+      console.log(`✅ User ${userId} bought ${payment.plan}`);
+      return NextResponse.json({
+        success: true,
+        message: 'Payment verified and generations added to your group!',
+      });
+    }
 
     console.log(`✅ User ${userId} upgraded to Pro`);
 
@@ -82,6 +190,24 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      console.error('❌ Unauthenticated payment verification attempt:', error.message);
+      return authErrorResponse(error);
+    }
+    if (error instanceof GatewayError) {
+      console.error('❌ Payment verification rejected:', error.message);
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+    if (error instanceof PaymentStateError) {
+      console.error('❌ Payment cannot be applied:', error.message);
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: 409 }
+      );
+    }
     console.error('❌ Payment verification error:', error);
     console.error('Error stack:', error.stack);
     console.error('Error name:', error.name);
@@ -1,6 +1,7 @@
 'use client';
 
 import { useCollection, useFirebase, useMemoFirebase } from '@/firebase';
+import { useEntitlements } from '@/hooks/use-entitlements';
 import { collection, orderBy, query } from 'firebase/firestore';
 import Image from 'next/image';
 import Link from 'next/link';
@@ -8,13 +9,16 @@ import { Button } from '@/components/ui/button';
 import { Download, Loader2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { useState } from 'react';
-import jsPDF from 'jspdf';
 import { getImageDataUri } from '../actions';
 import { useToast } from '@/hooks/use-toast';
 import { motion } from 'framer-motion';
+import { DIFFICULTY, DIFFICULTY_LEVELS, type Difficulty } from '@/lib/difficulty';
+import { DEFAULT_PAGE_FORMAT, renderPagePdf, type PageFormat } from '@/lib/page-formats';
 
 export default function GalleryPage() {
-  const { user, isUserLoading, firestore, isSubscribed } = useFirebase();
+  const { user, isUserLoading, firestore } = useFirebase();
+  const { entitlements } = useEntitlements();
+  const isSubscribed = entitlements?.isPro ?? false;
   const { toast } = useToast();
 
   const creationsQuery = useMemoFirebase(
@@ -22,10 +26,15 @@ export default function GalleryPage() {
     [user, firestore]
   );
   
-  const { data: images, isLoading } = useCollection<{ imageUrl: string; prompt: string, createdAt: any }>(creationsQuery);
+  const { data: images, isLoading } = useCollection<{ imageUrl: string; prompt: string, difficulty?: Difficulty, pageFormat?: PageFormat, createdAt: any }>(creationsQuery);
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [difficultyFilter, setDifficultyFilter] = useState<Difficulty | 'all'>('all');
 
-  const handleDownloadPdf = async (imageUrl: string, prompt: string, imageId: string) => {
+  // Filtered here rather than in the query, which would need a composite index. Pages made
+  // before difficulty levels existed only show under "All".
+  const visibleImages = difficultyFilter === 'all' ? images : images?.filter((image) => image.difficulty === difficultyFilter);
+
+  const handleDownloadPdf = async (imageUrl: string, prompt: string, imageId: string, pageFormat: PageFormat) => {
     setDownloadingId(imageId);
     try {
         const base64data = await getImageDataUri(imageUrl);
@@ -48,13 +57,7 @@ export default function GalleryPage() {
 
             const imgData = canvas.toDataURL('image/png');
             
-            const pdf = new jsPDF({
-                orientation: image.naturalWidth > image.naturalHeight ? 'landscape' : 'portrait',
-                unit: 'px',
-                format: [image.naturalWidth, image.naturalHeight]
-            });
-
-            pdf.addImage(imgData, 'PNG', 0, 0, image.naturalWidth, image.naturalHeight);
+            const pdf = renderPagePdf(imgData, image.naturalWidth, image.naturalHeight, pageFormat);
             pdf.save(`${prompt.slice(0, 20)}.pdf`);
             setDownloadingId(null);
         };
@@ -108,6 +111,22 @@ export default function GalleryPage() {
       <h1 className={isSubscribed ? "text-4xl sm:text-5xl font-bold tracking-tight pro-gradient-text mb-8 text-center" : "text-4xl sm:text-5xl font-bold tracking-tight gradient-text mb-8 text-center"}>
         {isSubscribed ? "Your AI Creations (Pro Access)" : "My Creations"}
       </h1>
+      <div role="group" aria-label="Filter by difficulty" className="flex flex-wrap justify-center gap-2 mb-8">
+        {(['all', ...DIFFICULTY_LEVELS] as const).map((level) => (
+          <Button
+            key={level}
+            size="sm"
+            variant={difficultyFilter === level ? 'default' : 'outline'}
+            aria-pressed={difficultyFilter === level}
+            onClick={() => setDifficultyFilter(level)}
+          >
+            {level === 'all' ? 'All' : DIFFICULTY[level].name}
+          </Button>
+        ))}
+      </div>
+      {difficultyFilter !== 'all' && !visibleImages?.length && (
+        <p className="text-center text-muted-foreground">No {DIFFICULTY[difficultyFilter].name.toLowerCase()} pages yet.</p>
+      )}
       <motion.div 
         className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6"
         initial="hidden"
@@ -120,7 +139,7 @@ export default function GalleryPage() {
           },
         }}
       >
-        {images.map((image) => (
+        {visibleImages?.map((image) => (
           <motion.div
             key={image.id}
             variants={{
@@ -142,7 +161,7 @@ export default function GalleryPage() {
                 <div className="p-4 flex flex-col flex-grow">
                 <p className="text-sm text-muted-foreground truncate flex-grow" title={image.prompt}>{image.prompt}</p>
                 <Button 
-                    onClick={() => handleDownloadPdf(image.imageUrl, image.prompt, image.id)} 
+                    onClick={() => handleDownloadPdf(image.imageUrl, image.prompt, image.id, image.pageFormat ?? DEFAULT_PAGE_FORMAT)} 
                     disabled={downloadingId === image.id}
                     size="sm" 
                     className="mt-4 w-full bg-gradient-to-br from-primary/80 to-accent/80 text-primary-foreground transition-all duration-300 transform hover:scale-105"
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Copy, Gift, Loader2, Mail } from 'lucide-react';
+import { useFirebase } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { getGiftPreview } from '../actions';
+import type { GiftPreview } from '@/lib/gifts';
+
+/**
+ * A gift, laid out like the email the gifter sends. The gifter also gets the
+ * options to copy the link or open it in their mail app.
+ */
+export default function GiftPage() {
+  const { code } = useParams<{ code: string }>();
+  const { user, isUserLoading } = useFirebase();
+  const { toast } = useToast();
+  const [gift, setGift] = useState<GiftPreview | null>(null);
+  const [isGifter, setIsGifter] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isUserLoading) return;
+
+    (async () => {
+      const result = await getGiftPreview({ code, idToken: user ? await user.getIdToken() : undefined });
+      if (result.success) {
+        setGift(result.gift!);
+        setIsGifter(result.isGifter ?? false);
+      } else {
+        setError(result.message);
+      }
+    })();
+  }, [code, user, isUserLoading]);
+
+  if (error) {
+    return (
+      <div className="container mx-auto max-w-2xl text-center py-20">
+        <h1 className="text-4xl font-bold gradient-text mb-4">Gift Not Found</h1>
+        <p className="text-muted-foreground mb-8">{error}</p>
+        <Button asChild>
+          <Link href="/">Go Home</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (!gift) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const from = gift.gifterName || 'Someone who loves you';
+  const redeemUrl = `${window.location.origin}/redeem?code=${encodeURIComponent(gift.code)}`;
+  const subject = `${from} sent you a gift: ${gift.productName}`;
+  const emailBody = [
+    `You've been given ${gift.productName} on AI Coloring Studio!`,
+    gift.message ? `\n"${gift.message}"\n` : '',
+    `Redeem it here: ${redeemUrl}`,
+    `Or enter the code ${gift.code} at ${window.location.origin}/redeem`,
+  ].join('\n');
+  const mailtoUrl = `mailto:${gift.recipientEmail}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(emailBody)}`;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(redeemUrl);
+    toast({ title: 'Link copied', description: 'Paste it into a message to send the gift.' });
+  };
+
+  return (
+    <div className="container mx-auto max-w-2xl py-12 px-4 space-y-6">
+      {isGifter && (
+        <Card className="glass-card">
+          <CardHeader>
+            <CardTitle className="text-xl">Send your gift</CardTitle>
+            <CardDescription>
+              {gift.status === 'redeemed'
+                ? 'Your gift has been redeemed. Thank you!'
+                : gift.status === 'pending'
+                  ? 'We are still confirming your payment. The gift can be redeemed as soon as it is.'
+                  : `Email this card to ${gift.recipientEmail} or share the link however you like.`}
+            </CardDescription>
+          </CardHeader>
+          {gift.status !== 'redeemed' && gift.status !== 'revoked' && (
+            <CardFooter className="flex gap-3">
+              <Button asChild className="flex-1">
+                <a href={mailtoUrl}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email Gift
+                </a>
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={handleCopy}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            </CardFooter>
+          )}
+        </Card>
+      )}
+
+      <Card className="glass-card overflow-hidden">
+        <div className="border-b border-white/10 px-6 py-4 text-sm text-muted-foreground space-y-1">
+          <div><span className="font-semibold">From:</span> {from}</div>
+          <div><span className="font-semibold">To:</span> {gift.recipientEmail}</div>
+          <div><span className="font-semibold">Subject:</span> {subject}</div>
+        </div>
+        <CardHeader className="text-center">
+          <Gift className="mx-auto h-16 w-16 text-primary" />
+          <CardTitle className="text-3xl font-bold mt-4 gradient-text">You've got a gift!</CardTitle>
+          <CardDescription className="text-lg">
+            {from} gave you <span className="font-semibold">{gift.productName}</span> on AI Coloring Studio.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 text-center">
+          {gift.message && (
+            <blockquote className="italic text-lg border-l-4 border-primary pl-4 text-left">
+              “{gift.message}”
+            </blockquote>
+          )}
+          <div className="rounded-lg border border-dashed border-primary/50 py-4">
+            <div className="text-xs uppercase tracking-widest text-muted-foreground">Gift code</div>
+            <div className="text-2xl font-mono font-bold">{gift.code}</div>
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button
+            asChild
+            size="lg"
+            className="w-full bg-gradient-to-r from-primary to-accent text-primary-foreground font-bold text-lg"
+            disabled={gift.status !== 'issued'}
+          >
+            <Link href={`/redeem?code=${encodeURIComponent(gift.code)}`}>
+              {gift.status === 'redeemed' ? 'Already Redeemed' : gift.status === 'revoked' ? 'No Longer Available' : 'Redeem Your Gift'}
+            </Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use server';
+
+import { z } from 'zod';
+import { AuthError, verifyIdToken } from '@/lib/auth';
+import { GiftError, getGift, toGiftPreview, type GiftPreview } from '@/lib/gifts';
+import { redeemGift } from '@/lib/payments';
+
+const giftCodeSchema = z.string().trim().min(4).max(32);
+
+const getGiftSchema = z.object({
+  code: giftCodeSchema,
+  idToken: z.string().optional(),
+});
+
+const redeemGiftSchema = z.object({
+  idToken: z.string(),
+  code: giftCodeSchema,
+});
+
+interface GetGiftState {
+  success: boolean;
+  message: string;
+  gift?: GiftPreview;
+  // True for the person who bought the gift, who sees the sharing options
+  isGifter?: boolean;
+}
+
+interface RedeemGiftState {
+  success: boolean;
+  message: string;
+  productName?: string;
+}
+
+/**
+ * Shows a gift to anyone holding its code. The code itself is the secret, so no
+ * sign-in is needed to look at it.
+ */
+export async function getGiftPreview(input: z.infer<typeof getGiftSchema>): Promise<GetGiftState> {
+  const validatedFields = getGiftSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'This gift code is not valid.' };
+  }
+
+  const { code, idToken } = validatedFields.data;
+  const gift = await getGift(code);
+  if (!gift) {
+    return { success: false, message: 'This gift code is not valid.' };
+  }
+
+  let isGifter = false;
+  if (idToken) {
+    try {
+      isGifter = (await verifyIdToken(idToken)).uid === gift.gifterId;
+    } catch (error: any) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+    }
+  }
+
+  return { success: true, message: 'Gift found.', gift: toGiftPreview(gift), isGifter };
+}
+
+/**
+ * Applies a gift to the signed-in caller's account.
+ */
+export async function redeemGiftCode(input: z.infer<typeof redeemGiftSchema>): Promise<RedeemGiftState> {
+  const validatedFields = redeemGiftSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Please enter a gift code.' };
+  }
+
+  let userId: string;
+  try {
+    ({ uid: userId } = await verifyIdToken(validatedFields.data.idToken));
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return { success: false, message: error.message };
+    }
+    throw error;
+  }
+
+  try {
+    const gift = await redeemGift(validatedFields.data.code, userId);
+    console.log(`✅ User ${userId} redeemed gift ${gift.code} (${gift.productId})`);
+    return { success: true, message: 'Gift redeemed.', productName: toGiftPreview(gift).productName };
+  } catch (error: any) {
+    if (error instanceof GiftError) {
+      return { success: false, message: error.message };
+    }
+    console.error('Gift redemption failed:', error.message);
+    return { success: false, message: 'Could not redeem this gift. Please try again.' };
+  }
+}
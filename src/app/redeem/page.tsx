@@ -0,0 +1,104 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Gift, Loader2 } from 'lucide-react';
+import { useFirebase } from '@/firebase';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { redeemGiftCode } from '../gift/actions';
+
+function RedeemForm() {
+  const { user, isUserLoading } = useFirebase();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [code, setCode] = useState(searchParams.get('code') ?? '');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+
+  const handleRedeem = async () => {
+    if (!user || !code.trim()) return;
+
+    setIsRedeeming(true);
+    const result = await redeemGiftCode({ idToken: await user.getIdToken(), code });
+    setIsRedeeming(false);
+
+    if (result.success) {
+      toast({
+        title: '🎉 Gift Redeemed!',
+        description: `${result.productName} has been added to your account.`,
+      });
+      router.push('/');
+    } else {
+      toast({ variant: 'destructive', title: 'Could Not Redeem Gift', description: result.message });
+    }
+  };
+
+  if (isUserLoading) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto max-w-2xl text-center py-20">
+        <h1 className="text-4xl font-bold gradient-text mb-4">Sign In to Redeem</h1>
+        <p className="text-muted-foreground mb-8">
+          Your gift will be added to the account you sign in with.
+        </p>
+        <div className="flex justify-center gap-3">
+          <Button asChild>
+            <Link href="/login">Login</Link>
+          </Button>
+          <Button asChild variant="outline">
+            <Link href="/signup">Create Account</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-md py-12 px-4">
+      <Card className="glass-card">
+        <CardHeader className="text-center">
+          <Gift className="mx-auto h-12 w-12 text-primary" />
+          <CardTitle className="text-3xl font-bold mt-4">Redeem a Gift</CardTitle>
+          <CardDescription>
+            Enter the code from your gift. It will be added to {user.email ?? 'your account'}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Input
+            placeholder="GIFT-XXXX-XXXX"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="font-mono text-center text-lg"
+            disabled={isRedeeming}
+          />
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" size="lg" onClick={handleRedeem} disabled={isRedeeming || !code.trim()}>
+            {isRedeeming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Redeem
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
+
+export default function RedeemPage() {
+  // useSearchParams needs a Suspense boundary to be prerendered
+  return (
+    <Suspense>
+      <RedeemForm />
+    </Suspense>
+  );
+}
@@ -3,7 +3,7 @@
 import Link from 'next/link';
 import { useActionState } from 'react';
 import { useFormStatus } from 'react-dom';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 
 import { signupAction } from '@/app/auth/actions';
@@ -11,11 +11,41 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useFirebase } from '@/firebase';
-import { createUserWithEmailAndPassword, GoogleAuthProvider, signInWithPopup } from 'firebase/auth';
+import { createUserWithEmailAndPassword, getAdditionalUserInfo, GoogleAuthProvider, signInWithPopup, type User } from 'firebase/auth';
 import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { FirebaseError } from 'firebase/app';
+import { claimReferral } from '@/app/account/referrals/actions';
+import { startProTrial } from '@/app/subscribe/actions';
+import { TRIAL_DURATION_DAYS } from '@/lib/plans';
+import { getDeviceId, rememberReferralCode, takeReferralCode } from '@/lib/referral-tracking';
+
+/**
+ * Attributes a new account to the referral link it signed up through, if any.
+ * @returns Whether the referral will earn a bonus
+ */
+async function claimPendingReferral(user: User): Promise<boolean> {
+  const code = takeReferralCode();
+  const deviceId = getDeviceId();
+  // Without a device ID (storage blocked) the fraud guards can't run, so the referral isn't claimed
+  if (!code || !deviceId) return false;
+
+  const result = await claimReferral({ idToken: await user.getIdToken(), code, deviceId });
+  return result.status === 'pending';
+}
+
+/**
+ * Starts the free Pro trial the new account opted into. Signup still succeeds if it can't.
+ * @returns Whether the trial started
+ */
+async function startSignupTrial(user: User): Promise<boolean> {
+  const result = await startProTrial({ idToken: await user.getIdToken() });
+  return result.success;
+}
+
+const REFERRAL_WELCOME = 'Create your first coloring page to unlock your bonus generations.';
+const TRIAL_WELCOME = `Your ${TRIAL_DURATION_DAYS}-day Pro trial has started.`;
 
 
 function SubmitButton() {
@@ -28,7 +58,7 @@ function SubmitButton() {
   );
 }
 
-function GoogleButton() {
+function GoogleButton({ withTrial }: { withTrial: boolean }) {
   const { auth, firestore } = useFirebase();
   const [isPending, setIsPending] = useState(false);
   const { toast } = useToast();
@@ -42,17 +72,23 @@ function GoogleButton() {
       const userCredential = await signInWithPopup(auth, provider);
       const user = userCredential.user;
       
-      // Create user profile in Firestore
+      const isNewUser = getAdditionalUserInfo(userCredential)?.isNewUser;
+
+      // Create user profile in Firestore. Usage is only initialised for new accounts:
+      // an existing one keeps its count, which the security rules don't let clients change.
       const userRef = doc(firestore, 'users', user.uid);
       await setDoc(userRef, {
         email: user.email,
         displayName: user.displayName,
-        createdAt: serverTimestamp(),
-        generationCount: 0,
-        isSubscribed: false,
+        ...(isNewUser && { createdAt: serverTimestamp(), generationCount: 0, isSubscribed: false }),
       }, { merge: true });
 
-      toast({ title: '✅ Successfully signed up!' });
+      const referred = isNewUser && await claimPendingReferral(user);
+      const trialStarted = isNewUser && withTrial && await startSignupTrial(user);
+      toast({
+        title: '✅ Successfully signed up!',
+        description: [trialStarted && TRIAL_WELCOME, referred && REFERRAL_WELCOME].filter(Boolean).join(' ') || undefined,
+      });
       router.push('/');
     } catch (e: any) {
       const error = e as FirebaseError;
@@ -91,10 +127,18 @@ export default function SignupPage() {
   const [state, formAction] = useActionState(signupAction, { message: null, success: false });
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [withTrial, setWithTrial] = useState(true);
+  // Read when the account is created: ticking the box must not re-run the sign-up effect
+  const withTrialRef = useRef(withTrial);
+  withTrialRef.current = withTrial;
   const router = useRouter();
   const { auth, firestore } = useFirebase();
   const { toast } = useToast();
 
+  useEffect(() => {
+    rememberReferralCode();
+  }, []);
+
   useEffect(() => {
     const performSignUp = async () => {
       if (state.success && auth && firestore) {
@@ -110,8 +154,13 @@ export default function SignupPage() {
             generationCount: 0,
             isSubscribed: false,
           });
-          
-          toast({ title: '✅ Account created successfully!' });
+
+          const referred = await claimPendingReferral(user);
+          const trialStarted = withTrialRef.current && await startSignupTrial(user);
+          toast({
+            title: '✅ Account created successfully!',
+            description: [trialStarted && TRIAL_WELCOME, referred && REFERRAL_WELCOME].filter(Boolean).join(' ') || undefined,
+          });
           router.push('/');
         } catch (e) {
           const error = e as FirebaseError;
@@ -169,6 +218,18 @@ export default function SignupPage() {
               onChange={(e) => setPassword(e.target.value)}
             />
           </div>
+          <div className="flex items-center gap-2">
+            <input
+              id="trial"
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={withTrial}
+              onChange={(e) => setWithTrial(e.target.checked)}
+            />
+            <Label htmlFor="trial" className="font-normal">
+              Start my free {TRIAL_DURATION_DAYS}-day Pro trial
+            </Label>
+          </div>
           <SubmitButton />
         </form>
         <div className="relative">
@@ -181,7 +242,7 @@ export default function SignupPage() {
             </span>
           </div>
         </div>
-        <GoogleButton />
+        <GoogleButton withTrial={withTrial} />
         <div className="mt-4 text-center text-sm">
           Already have an account?{' '}
           <Link href="/login" className="underline text-primary">
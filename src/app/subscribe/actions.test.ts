@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { cancelSubscription, createCheckout, createRazorpaySubscription } from '@/app/subscribe/actions';
+import { getRazorpayClient } from '@/lib/razorpay';
+import { completePayment, createPaymentRecord } from '@/lib/payments';
+import { CouponError } from '@/lib/coupons';
+import { resolvePrice } from '@/lib/pricing';
+import { listDocs, readDoc, seedDoc } from '@/test/fake-firebase-admin';
+import { deliverWebhook, idToken, seedUser, verifyPayment } from '@/test/payments';
+
+function seedCoupon(code: string, fields: Record<string, unknown>) {
+  seedDoc(`coupons/${code}`, { active: true, expiresAt: null, maxRedemptions: null, perUserLimit: 1, redemptionCount: 0, ...fields });
+}
+
+describe('createCheckout', () => {
+  it('creates a Razorpay order at the catalog price and records it in the ledger', async () => {
+    seedUser('alice');
+    const price = resolvePrice('pro_lifetime', null);
+
+    const result = await createCheckout({ idToken: idToken('alice'), productId: 'pro_lifetime' });
+
+    expect(result).toMatchObject({ success: true, gateway: 'razorpay', amount: price.amount });
+    expect(result.checkout?.type).toBe('completed'); // The stub completes checkout itself
+    expect(readDoc(`payments/${result.orderId}`)).toMatchObject({
+      userId: 'alice',
+      plan: 'pro_lifetime',
+      amount: price.amount,
+      currency: 'INR',
+      gateway: 'razorpay',
+      status: 'created',
+    });
+    const order = await getRazorpayClient().orders.fetch(result.orderId!);
+    expect(order).toMatchObject({ amount: price.amount, notes: { firebase_uid: 'alice', product: 'pro_lifetime' } });
+  });
+
+  it('rejects an invalid ID token without creating an order', async () => {
+    const result = await createCheckout({ idToken: 'forged', productId: 'pro_lifetime' });
+
+    expect(result.success).toBe(false);
+    expect(listDocs('payments')).toHaveLength(0);
+  });
+
+  it('discounts the order by a coupon without redeeming it yet', async () => {
+    seedUser('alice');
+    seedCoupon('HALF', { type: 'percent_off', value: 50 });
+    const price = resolvePrice('credits_50', null);
+
+    const result = await createCheckout({ idToken: idToken('alice'), productId: 'credits_50', couponCode: 'half' });
+
+    expect(result.amount).toBe(price.amount - Math.round(price.listPrice / 2));
+    expect(readDoc(`payments/${result.orderId}`)).toMatchObject({ listAmount: price.amount, coupon: { code: 'HALF' } });
+    expect(readDoc('coupons/HALF')?.redemptionCount).toBe(0);
+  });
+
+  it('completes an order a coupon makes free without going to Razorpay', async () => {
+    seedUser('alice');
+    seedCoupon('FREEPRO', { type: 'free_pro', value: 0 });
+
+    const result = await createCheckout({ idToken: idToken('alice'), productId: 'pro_lifetime', couponCode: 'FREEPRO' });
+
+    expect(result).toMatchObject({ success: true, completed: true, amount: 0 });
+    expect(readDoc(`payments/${result.orderId}`)).toMatchObject({ status: 'paid', gateway: 'coupon' });
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: true, plan: 'pro_lifetime' });
+    expect(readDoc('coupons/FREEPRO')?.redemptionCount).toBe(1);
+    expect(readDoc(`coupons/FREEPRO/redemptions/${result.orderId}`)).toMatchObject({ userId: 'alice' });
+  });
+
+  it('refuses a free order once the coupon has run out, even if it passed the first check', async () => {
+    seedUser('alice');
+    seedCoupon('FREEPRO', { type: 'free_pro', value: 0, maxRedemptions: 1 });
+    const coupon = { code: 'FREEPRO', type: 'free_pro' as const, discount: 0, bonusCredits: 0 };
+    // Validated while the coupon had one redemption left; another order took it before this one completed
+    await createPaymentRecord({ orderId: 'free_1', userId: 'alice', plan: 'pro_lifetime', amount: 0, currency: 'INR', receipt: 'r', gateway: 'coupon', coupon });
+    seedCoupon('FREEPRO', { type: 'free_pro', value: 0, maxRedemptions: 1, redemptionCount: 1 });
+
+    await expect(completePayment('free_1', 'free_1')).rejects.toThrow(CouponError);
+
+    expect(readDoc('users/alice')?.isSubscribed).toBe(false);
+    expect(readDoc('coupons/FREEPRO')?.redemptionCount).toBe(1);
+  });
+
+  it('refuses a second free order over the per-user limit', async () => {
+    seedUser('alice');
+    seedCoupon('BONUS', { type: 'percent_off', value: 100, perUserLimit: 1 });
+    const coupon = { code: 'BONUS', type: 'percent_off' as const, discount: 0, bonusCredits: 0 };
+    for (const orderId of ['free_1', 'free_2']) {
+      await createPaymentRecord({ orderId, userId: 'alice', plan: 'credits_20', amount: 0, currency: 'INR', receipt: 'r', gateway: 'coupon', coupon });
+    }
+
+    await completePayment('free_1', 'free_1');
+    await expect(completePayment('free_2', 'free_2')).rejects.toThrow('You have already used this coupon.');
+
+    expect(readDoc('users/alice')?.credits).toBe(20);
+  });
+});
+
+describe('recurring plans', () => {
+  /**
+   * Subscribes through the stub's checkout and the verify route, as the subscribe page does.
+   */
+  async function subscribe(uid: string) {
+    const result = await createRazorpaySubscription({ idToken: idToken(uid), planId: 'pro_monthly' });
+    if (!result.stubCheckout) throw new Error(`Subscription was not created: ${result.message}`);
+    const verified = await verifyPayment(uid, result.stubCheckout);
+    return { subscriptionId: result.subscriptionId!, paymentId: result.stubCheckout.razorpay_payment_id, verified };
+  }
+
+  /**
+   * Delivers `subscription.charged` for the subscription's latest payment.
+   */
+  async function charge(subscriptionId: string, paymentId: string) {
+    const client = getRazorpayClient();
+    const payment = { ...await client.payments.fetch(paymentId), amount: resolvePrice('pro_monthly', null).amount };
+    await deliverWebhook('subscription.charged', {
+      subscription: { entity: await client.subscriptions.fetch(subscriptionId) },
+      payment: { entity: payment },
+    });
+    return payment;
+  }
+
+  it('activates Pro once checkout is verified', async () => {
+    seedUser('alice');
+
+    const { subscriptionId, verified } = await subscribe('alice');
+
+    expect(verified.status).toBe(200);
+    expect(readDoc('users/alice')).toMatchObject({
+      isSubscribed: true,
+      plan: 'pro_monthly',
+      subscriptionStatus: 'active',
+      razorpaySubscriptionId: subscriptionId,
+    });
+    expect(readDoc(`subscriptions/${subscriptionId}`)?.status).toBe('active');
+  });
+
+  it('records each charge in the ledger with an invoice', async () => {
+    seedUser('alice');
+    const { subscriptionId, paymentId } = await subscribe('alice');
+
+    await charge(subscriptionId, paymentId);
+
+    expect(readDoc(`payments/${paymentId}`)).toMatchObject({ status: 'paid', subscriptionId, userId: 'alice' });
+    expect(readDoc(`users/alice/invoices/${paymentId}`)).toBeDefined();
+  });
+
+  it('keeps Pro until the period ends after a cancellation, then ends it', async () => {
+    seedUser('alice');
+    const { subscriptionId } = await subscribe('alice');
+
+    const result = await cancelSubscription({ idToken: idToken('alice') });
+
+    expect(result.success).toBe(true);
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: true, cancelAtPeriodEnd: true });
+
+    await getRazorpayClient().subscriptions.cancel(subscriptionId, false);
+    await deliverWebhook('subscription.cancelled', { subscription: { entity: await getRazorpayClient().subscriptions.fetch(subscriptionId) } });
+
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: false, subscriptionStatus: 'cancelled' });
+  });
+
+  it('cancels the subscription when its charge is refunded in full', async () => {
+    seedUser('alice');
+    const { subscriptionId, paymentId } = await subscribe('alice');
+    const payment = await charge(subscriptionId, paymentId);
+
+    await deliverWebhook('refund.processed', {
+      refund: { entity: { id: 'rfnd_full', payment_id: paymentId, amount: payment.amount } },
+      payment: { entity: payment },
+    });
+
+    expect(readDoc('users/alice')).toMatchObject({ isSubscribed: false, subscriptionStatus: 'cancelled' });
+    expect(await getRazorpayClient().subscriptions.fetch(subscriptionId)).toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -1,35 +1,116 @@
 'use server';
 
-import Razorpay from 'razorpay';
 import crypto from 'crypto';
 import { z } from 'zod';
+import { AuthError, verifyIdToken } from '@/lib/auth';
+import { createStubCheckoutResponse, getRazorpayClient, getRazorpayPlanId, isRazorpayStubMode } from '@/lib/razorpay';
+import { completePayment, createPaymentRecord, recordPaymentAttempt } from '@/lib/payments';
+import { GatewayError, getPaymentGateway, selectGatewayForCountry, type CheckoutClientAction, type PaymentGatewayName } from '@/lib/payment-gateways';
+import { getRequestCountry, getRequestOrigin } from '@/lib/request-context';
+import { CouponError, validateCoupon, type CouponApplication } from '@/lib/coupons';
+import { createGift, generateGiftCode } from '@/lib/gifts';
+import { createSubscriptionRecord, markCancelAtPeriodEnd } from '@/lib/subscriptions';
+import { TrialError, startTrial } from '@/lib/trials';
+import { PLANS, getProduct, isGroupPlanId, isRecurringPlan, type PlanId, type ProductId } from '@/lib/plans';
+import { chargedAmount, getPriceList, resolvePrice, type Currency, type ProductPrice } from '@/lib/pricing';
+import { getDb } from '@/lib/server-only-firebase';
 
 const createOrderSchema = z.object({
-  userId: z.string(),
+  idToken: z.string(),
+  // One-off purchases: the lifetime plan, a credit pack or a family/classroom plan
+  productId: z.enum(['pro_lifetime', 'credits_20', 'credits_50', 'group_family', 'group_classroom']).default('pro_lifetime'),
+  couponCode: z.string().trim().max(64).optional(),
+  // Buy the product for someone else; they redeem it with the gift code
+  gift: z.object({
+    recipientEmail: z.string().trim().toLowerCase().email(),
+    fromName: z.string().trim().max(80).optional(),
+    message: z.string().trim().max(500).optional(),
+  }).optional(),
 });
 
+const checkCouponSchema = z.object({
+  idToken: z.string(),
+  productId: z.enum(['pro_lifetime', 'credits_20', 'credits_50', 'group_family', 'group_classroom']),
+  couponCode: z.string().trim().min(1).max(64),
+});
+
+const createSubscriptionSchema = z.object({
+  idToken: z.string(),
+  planId: z.enum(['pro_monthly', 'pro_yearly']),
+});
+
+const cancelSubscriptionSchema = z.object({
+  idToken: z.string(),
+});
+
+const startTrialSchema = z.object({
+  idToken: z.string(),
+});
+
+/**
+ * Fields Razorpay Checkout would have returned; only present in stub mode,
+ * where the server completes checkout itself.
+ */
+type StubCheckoutResponse = Record<string, string>;
+
 interface CreateOrderState {
   success: boolean;
   message: string;
   orderId?: string;
   amount?: number;
+  // Set when a coupon made the order free; it is already paid and applied
+  completed?: boolean;
+  giftCode?: string;
+  gateway?: PaymentGatewayName;
+  // How the browser pays for the order, depending on the gateway
+  checkout?: CheckoutClientAction;
 }
 
-export async function createRazorpayOrder(input: z.infer<typeof createOrderSchema>): Promise<CreateOrderState> {
-  const keyId = process.env.RAZORPAY_KEY_ID;
-  const keySecret = process.env.RAZORPAY_KEY_SECRET;
-  
-  if (!keyId || !keySecret) {
-    const message = 'Razorpay API keys are not configured on the server.';
-    console.error(message);
-    return { success: false, message };
-  }
+interface CheckCouponState {
+  success: boolean;
+  message: string;
+  amount?: number;
+  currency?: Currency;
+  bonusCredits?: number;
+}
 
-  const razorpayInstance = new Razorpay({
-    key_id: keyId,
-    key_secret: keySecret,
-  });
+interface PricingState {
+  currency: Currency;
+  prices: Record<ProductId, ProductPrice>;
+}
 
+interface CreateSubscriptionState {
+  success: boolean;
+  message: string;
+  subscriptionId?: string;
+  stubCheckout?: StubCheckoutResponse;
+}
+
+interface CancelSubscriptionState {
+  success: boolean;
+  message: string;
+}
+
+interface StartTrialState {
+  success: boolean;
+  message: string;
+  trialEndsAt?: string; // ISO date
+}
+
+// Resolves the uid from the verified token, never from client-supplied ids
+async function authenticate(idToken: string): Promise<{ userId: string; email: string | null } | { error: string }> {
+  try {
+    const { uid, email } = await verifyIdToken(idToken);
+    return { userId: uid, email };
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return { error: error.message };
+    }
+    throw error;
+  }
+}
+
+export async function createCheckout(input: z.input<typeof createOrderSchema>): Promise<CreateOrderState> {
   const validatedFields = createOrderSchema.safeParse(input);
 
   if (!validatedFields.success) {
@@ -38,40 +119,299 @@ export async function createRazorpayOrder(input: z.infer<typeof createOrderSchem
       message: 'Invalid input for creating order.',
     };
   }
-  
-  const { userId } = validatedFields.data;
-  const amountInPaise = 10 * 100; // ₹10
+
+  // The order is tagged with the uid from the verified token, not a client-supplied id
+  const auth = await authenticate(validatedFields.data.idToken);
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+  const { userId, email } = auth;
+
+  const product = getProduct(validatedFields.data.productId)!;
+  const { couponCode, gift } = validatedFields.data;
+
+  if (isGroupPlanId(product.id)) {
+    if (gift) {
+      return { success: false, message: 'Family and classroom plans cannot be bought as a gift.' };
+    }
+    // Buying a group plan makes you the owner of your own group
+    const userDoc = await getDb().collection('users').doc(userId).get();
+    const groupId = userDoc.data()?.groupId as string | undefined;
+    if (groupId && groupId !== userId) {
+      return { success: false, message: 'Leave the group you are in before buying your own plan.' };
+    }
+  }
 
   try {
+    // The price comes from the catalog for the caller's country, exactly as /subscribe showed it,
+    // and the discount from the coupon; neither is ever taken from the client
+    const country = await getRequestCountry();
+    const price = resolvePrice(product.id, country);
+    let coupon: CouponApplication | undefined;
+    if (couponCode) {
+      coupon = await validateCoupon(couponCode, userId, product, price);
+    }
+    const amount = chargedAmount(price, coupon?.discount);
     const receiptId = `receipt_${crypto.randomBytes(6).toString('hex')}`;
-    const orderOptions = {
-        amount: amountInPaise,
-        currency: 'INR',
-        receipt: receiptId,
-        notes: {
-            firebase_uid: userId,
-        },
+    const priceFields = { currency: price.currency, tax: price.tax, country };
+    const couponFields = coupon && { listAmount: price.amount, coupon };
+    const giftCode = gift && generateGiftCode();
+
+    // The gift code is reserved before the ledger entry that will issue it when paid
+    const reserveGift = async (orderId: string) => {
+      if (gift && giftCode) {
+        await createGift({
+          code: giftCode,
+          orderId,
+          productId: product.id,
+          gifterId: userId,
+          gifterName: gift.fromName || null,
+          recipientEmail: gift.recipientEmail,
+          message: gift.message || null,
+        });
+      }
     };
+    const giftFields = gift && giftCode && { gift: { code: giftCode, recipientEmail: gift.recipientEmail } };
 
-    const order = await razorpayInstance.orders.create(orderOptions);
+    if (amount === 0) {
+      // Nothing to charge, so skip the gateway and complete the order straight away
+      const orderId = `free_${crypto.randomBytes(8).toString('hex')}`;
+      await reserveGift(orderId);
+      await createPaymentRecord({
+        orderId,
+        userId,
+        plan: product.id,
+        amount,
+        ...priceFields,
+        receipt: receiptId,
+        gateway: 'coupon',
+        ...couponFields,
+        ...giftFields,
+      });
+      try {
+        await completePayment(orderId, orderId);
+      } catch (error) {
+        // The coupon ran out since it was checked; the order is closed unpaid
+        if (error instanceof CouponError) {
+          await recordPaymentAttempt(orderId, 'failed', { failureReason: error.message });
+        }
+        throw error;
+      }
 
-    if (!order) {
-      return { success: false, message: 'Failed to create order with Razorpay.' };
+      return { success: true, message: 'Coupon applied.', orderId, amount, completed: true, giftCode };
     }
 
+    const gateway = getPaymentGateway(selectGatewayForCountry(country));
+    const session = await gateway.createCheckout({
+      userId,
+      email,
+      productId: product.id,
+      description: product.name,
+      amount,
+      currency: price.currency,
+      receipt: receiptId,
+      returnUrl: `${await getRequestOrigin()}/subscribe?product=${product.id}`,
+    });
+
+    // Record the order in the payments ledger before the customer can pay it
+    await reserveGift(session.orderId);
+    await createPaymentRecord({
+      orderId: session.orderId,
+      userId,
+      plan: product.id,
+      amount,
+      ...priceFields,
+      receipt: receiptId,
+      gateway: gateway.name,
+      ...couponFields,
+      ...giftFields,
+    });
+
     return {
       success: true,
       message: 'Order created successfully.',
-      orderId: order.id,
-      amount: order.amount,
+      orderId: session.orderId,
+      amount,
+      gateway: gateway.name,
+      checkout: session.client,
+      giftCode,
+    };
+
+  } catch (error: any) {
+    if (error instanceof CouponError || error instanceof GatewayError) {
+      return { success: false, message: error.message };
+    }
+    console.error('Order creation failed:', error.error ? JSON.stringify(error.error) : error.message);
+    const errorMessage = error.error?.description || error.message || 'An unexpected error occurred.';
+    return {
+      success: false,
+      message: errorMessage,
+    };
+  }
+}
+
+/**
+ * Prices for the caller's country, as createCheckout will charge them.
+ */
+export async function getPricing(): Promise<PricingState> {
+  const country = await getRequestCountry();
+  const prices = getPriceList(country);
+  return { currency: prices.pro_lifetime.currency, prices };
+}
+
+/**
+ * Previews what a coupon does to a product's price. The order itself is priced
+ * again in createCheckout.
+ */
+export async function checkCoupon(input: z.infer<typeof checkCouponSchema>): Promise<CheckCouponState> {
+  const validatedFields = checkCouponSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Please enter a coupon code.' };
+  }
+
+  const auth = await authenticate(validatedFields.data.idToken);
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  const product = getProduct(validatedFields.data.productId)!;
+
+  try {
+    const price = resolvePrice(product.id, await getRequestCountry());
+    const coupon = await validateCoupon(validatedFields.data.couponCode, auth.userId, product, price);
+    return {
+      success: true,
+      message: 'Coupon applied.',
+      amount: chargedAmount(price, coupon.discount),
+      currency: price.currency,
+      bonusCredits: coupon.bonusCredits,
     };
+  } catch (error: any) {
+    if (error instanceof CouponError) {
+      return { success: false, message: error.message };
+    }
+    console.error('Coupon check failed:', error.message);
+    return { success: false, message: 'Could not check this coupon. Please try again.' };
+  }
+}
+
+export async function createRazorpaySubscription(input: z.infer<typeof createSubscriptionSchema>): Promise<CreateSubscriptionState> {
+  const validatedFields = createSubscriptionSchema.safeParse(input);
 
+  if (!validatedFields.success) {
+    return {
+      success: false,
+      message: 'Invalid input for creating subscription.',
+    };
+  }
+
+  const auth = await authenticate(validatedFields.data.idToken);
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+  const { userId } = auth;
+
+  const plan = PLANS[validatedFields.data.planId as PlanId];
+  if (!isRecurringPlan(plan)) {
+    return { success: false, message: 'This plan is not a subscription.' };
+  }
+
+  try {
+    const subscription = await getRazorpayClient().subscriptions.create({
+      plan_id: getRazorpayPlanId(plan.id),
+      // Razorpay requires a finite number of billing cycles
+      total_count: plan.interval === 'yearly' ? 10 : 120,
+      customer_notify: 1,
+      notes: {
+        firebase_uid: userId,
+        plan: plan.id,
+      },
+    });
+
+    await createSubscriptionRecord({
+      subscriptionId: subscription.id,
+      userId,
+      plan: plan.id,
+    });
+
+    return {
+      success: true,
+      message: 'Subscription created successfully.',
+      subscriptionId: subscription.id,
+      ...(isRazorpayStubMode() && { stubCheckout: createStubCheckoutResponse({ subscriptionId: subscription.id }) }),
+    };
   } catch (error: any) {
-    console.error('Razorpay order creation failed:', error.error ? JSON.stringify(error.error) : error.message);
+    console.error('Razorpay subscription creation failed:', error.error ? JSON.stringify(error.error) : error.message);
     const errorMessage = error.error?.description || error.message || 'An unexpected error occurred.';
     return {
       success: false,
       message: errorMessage,
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Stops the caller's recurring plan from renewing. Pro access continues until
+ * the end of the period that has already been paid for.
+ */
+export async function cancelSubscription(input: z.infer<typeof cancelSubscriptionSchema>): Promise<CancelSubscriptionState> {
+  const validatedFields = cancelSubscriptionSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input for cancelling subscription.' };
+  }
+
+  const auth = await authenticate(validatedFields.data.idToken);
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    const userDoc = await getDb().collection('users').doc(auth.userId).get();
+    const subscriptionId = userDoc.data()?.razorpaySubscriptionId as string | undefined;
+
+    if (!subscriptionId || userDoc.data()?.subscriptionStatus !== 'active') {
+      return { success: false, message: 'You do not have an active subscription.' };
+    }
+
+    await getRazorpayClient().subscriptions.cancel(subscriptionId, true);
+    await markCancelAtPeriodEnd(subscriptionId, true);
+
+    return { success: true, message: 'Your plan will not renew.' };
+  } catch (error: any) {
+    console.error('Razorpay subscription cancellation failed:', error.error ? JSON.stringify(error.error) : error.message);
+    return {
+      success: false,
+      message: error.error?.description || error.message || 'An unexpected error occurred.',
+    };
+  }
+}
+
+/**
+ * Starts the caller's free Pro trial, once per account.
+ */
+export async function startProTrial(input: z.infer<typeof startTrialSchema>): Promise<StartTrialState> {
+  const validatedFields = startTrialSchema.safeParse(input);
+
+  if (!validatedFields.success) {
+    return { success: false, message: 'Invalid input for starting a trial.' };
+  }
+
+  const auth = await authenticate(validatedFields.data.idToken);
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    const trialEndsAt = await startTrial(auth.userId);
+    console.log(`✅ User ${auth.userId} started a Pro trial`);
+    return { success: true, message: 'Your Pro trial has started.', trialEndsAt: trialEndsAt.toDate().toISOString() };
+  } catch (error: any) {
+    if (error instanceof TrialError) {
+      return { success: false, message: error.message };
+    }
+    console.error('Starting trial failed:', error.message);
+    return { success: false, message: 'Could not start your trial. Please try again.' };
+  }
+}
@@ -1,15 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Script from 'next/script';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { useFirebase, useUser } from '@/firebase';
+import { doc } from 'firebase/firestore';
+import { useDoc, useFirebase, useMemoFirebase, useUser } from '@/firebase';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Check, Crown, Loader2, Sparkles, PartyPopper, Rocket } from 'lucide-react';
+import { Check, Coins, Crown, Gift, Hourglass, Loader2, Sparkles, PartyPopper, Rocket, Users } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { createRazorpayOrder } from './actions';
+import { cancelSubscription, checkCoupon, createCheckout, createRazorpaySubscription, getPricing, startProTrial } from './actions';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { CREDIT_PACKS, GROUP_PLANS, PLANS, getProduct, hasActivePro, isRecurringPlan, type CreditPack, type GroupPlanId, type PlanId, type Product, type ProductId, TRIAL_DURATION_DAYS } from '@/lib/plans';
 import { cn } from '@/lib/utils';
 
 declare global {
@@ -48,15 +52,225 @@ function ProCelebration() {
   );
 }
 
+const PLAN_ORDER: PlanId[] = ['pro_monthly', 'pro_yearly', 'pro_lifetime'];
+
+type Pricing = Awaited<ReturnType<typeof getPricing>>;
+
+function formatPrice(amount: number, currency: string) {
+  return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: amount % 100 === 0 ? 0 : 2,
+  }).format(amount / 100);
+}
+
+const PLAN_PERIOD_LABEL: Record<PlanId, string> = {
+  pro_monthly: '/month',
+  pro_yearly: '/year',
+  pro_lifetime: '/one-time',
+};
+
 export default function SubscribePage() {
-  const { user, isUserLoading } = useFirebase();
+  const { user, isUserLoading, firestore } = useFirebase();
   const router = useRouter();
   const { toast } = useToast();
   const [isSubscribing, setIsSubscribing] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isStartingTrial, setIsStartingTrial] = useState(false);
   const [isRazorpayReady, setIsRazorpayReady] = useState(false);
   const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const [selectedPlanId, setSelectedPlanId] = useState<PlanId>('pro_monthly');
+  const [couponCode, setCouponCode] = useState('');
+  const [isCheckingCoupon, setIsCheckingCoupon] = useState(false);
+  const [couponPreview, setCouponPreview] = useState<{ planId: PlanId; amount: number; currency: string; bonusCredits: number } | null>(null);
+  const [pricing, setPricing] = useState<Pricing | null>(null);
+  const [giftRecipientEmail, setGiftRecipientEmail] = useState('');
+  const [giftMessage, setGiftMessage] = useState('');
+
+  const profileRef = useMemoFirebase(
+    () => (user ? doc(firestore, 'users', user.uid) : null),
+    [firestore, user]
+  );
+  const { data: profile } = useDoc<any>(profileRef);
+  const isPro = hasActivePro(profile);
+  // One trial per account, never for someone who already pays
+  const canStartTrial = !!profile && !isPro && !profile.trialStartedAt;
+  const hasRecurringPlan = isPro && profile?.subscriptionStatus === 'active' && profile?.plan !== 'pro_lifetime';
+  const selectedPlan = PLANS[selectedPlanId];
+  const selectedPrice = pricing?.prices[selectedPlan.id];
+
+  // Prices come from the server's catalog for this visitor's country, as checkout will charge them
+  useEffect(() => {
+    getPricing().then(setPricing);
+  }, []);
+
+  const priceLabel = (productId: ProductId) => {
+    const price = pricing?.prices[productId];
+    return price ? formatPrice(price.amount, price.currency) : '…';
+  };
+
+  const handlePaid = (product: Product, giftCode?: string) => {
+    if (giftCode) {
+      toast({
+        title: '🎁 Gift Purchased!',
+        description: `Now send ${product.name} to ${giftRecipientEmail || 'its recipient'}.`,
+      });
+      router.push(`/gift/${giftCode}`);
+      return;
+    }
+    if ('credits' in product) {
+      toast({
+        title: '🎉 Payment Successful!',
+        description: `${product.credits} credits were added to your account.`,
+      });
+    } else if ('seats' in product) {
+      toast({
+        title: '🎉 Payment Successful!',
+        description: `${product.generations} generations were added to your group. Invite your members next.`,
+      });
+      router.push('/account/group');
+    } else {
+      toast({
+        title: '🎉 Payment Successful!',
+        description: 'You now have unlimited access.',
+      });
+      setPaymentSuccess(true); // Trigger celebration UI
+    }
+  };
+
+  const handleApplyCoupon = async () => {
+    if (!user || !couponCode.trim()) return;
+
+    if (isRecurringPlan(selectedPlan)) {
+      toast({
+        variant: 'destructive',
+        title: 'Coupon Not Applicable',
+        description: 'Coupons can be used for Pro Lifetime and credit packs.',
+      });
+      return;
+    }
+
+    setIsCheckingCoupon(true);
+    const result = await checkCoupon({
+      idToken: await user.getIdToken(),
+      productId: selectedPlan.id as 'pro_lifetime',
+      couponCode,
+    });
+    setIsCheckingCoupon(false);
+
+    if (result.success) {
+      setCouponPreview({ planId: selectedPlan.id, amount: result.amount!, currency: result.currency!, bonusCredits: result.bonusCredits ?? 0 });
+    } else {
+      setCouponPreview(null);
+      toast({ variant: 'destructive', title: 'Invalid Coupon', description: result.message });
+    }
+  };
+
+  const verifyPayment = async (response: Record<string, string>, product: Product, gateway = 'razorpay') => {
+    if (!user) return;
+
+    try {
+      // Construct the absolute URL for the API endpoint
+      const verificationUrl = new URL('/api/verify-payment', window.location.origin).href;
+
+      const verificationResponse = await fetch(
+        verificationUrl,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${await user.getIdToken()}`,
+          },
+          // The gateway's checkout response, passed through for the server to check
+          body: JSON.stringify({ ...response, gateway }),
+        }
+      );
+
+      const verificationResult = await verificationResponse.json();
+
+      if (verificationResult.success) {
+        handlePaid(product, verificationResult.giftCode);
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Payment Verification Failed',
+          description: verificationResult.message,
+        });
+      }
+    } catch (error: any) {
+      console.error('Verification request failed:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Could not communicate with the server for verification.',
+      });
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  // Redirect-based checkouts (Stripe) come back here with the session to verify
+  const returnVerified = useRef(false);
+  useEffect(() => {
+    if (!user || returnVerified.current) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const sessionId = params.get('session_id');
+    returnVerified.current = true;
+    if (!params.has('gateway') && !params.has('checkout')) return;
+
+    router.replace('/subscribe');
+    if (params.get('checkout') === 'cancelled') {
+      toast({
+        variant: 'default',
+        title: 'Payment Cancelled',
+        description: 'Your payment process was cancelled.',
+      });
+    }
+
+    if (params.get('gateway') === 'stripe' && sessionId) {
+      const product = getProduct(params.get('product') as ProductId) ?? PLANS.pro_lifetime;
+      setIsSubscribing(true);
+      verifyPayment({ session_id: sessionId }, product, 'stripe');
+    }
+  }, [user]);
+
+  const handleCancel = async () => {
+    if (!user) return;
+
+    setIsCancelling(true);
+    const result = await cancelSubscription({ idToken: await user.getIdToken() });
+    setIsCancelling(false);
+
+    toast({
+      variant: result.success ? 'default' : 'destructive',
+      title: result.success ? 'Subscription Cancelled' : 'Cancellation Failed',
+      description: result.success && profile?.currentPeriodEnd
+        ? `You keep Pro until ${profile.currentPeriodEnd.toDate().toLocaleDateString()}.`
+        : result.message,
+    });
+  };
 
-  const handleSubscribe = async (method?: 'upi') => {
+  const handleStartTrial = async () => {
+    if (!user) return;
+
+    setIsStartingTrial(true);
+    const result = await startProTrial({ idToken: await user.getIdToken() });
+    setIsStartingTrial(false);
+
+    toast({
+      variant: result.success ? 'default' : 'destructive',
+      title: result.success ? 'Welcome to Pro!' : 'Could Not Start Trial',
+      description: result.success && result.trialEndsAt
+        ? `Your free trial runs until ${new Date(result.trialEndsAt).toLocaleDateString()}.`
+        : result.message,
+    });
+    if (result.success) {
+      router.push('/');
+    }
+  };
+
+  const handleSubscribe = async (method?: 'upi', product: Product = selectedPlan, asGift = false) => {
     if (!user) {
       toast({
         variant: 'destructive',
@@ -67,73 +281,84 @@ export default function SubscribePage() {
       return;
     }
 
+    if (asGift && !giftRecipientEmail.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Recipient Needed',
+        description: "Enter the email address of the person you're gifting.",
+      });
+      return;
+    }
+
     setIsSubscribing(true);
 
     try {
-      // 1. Create a payment order from our server
-      const orderResult = await createRazorpayOrder({ userId: user.uid });
+      const idToken = await user.getIdToken();
+
+      // 1. Create a payment order (or a subscription, for recurring plans) from our server
+      let checkoutOptions: Record<string, unknown>;
+      let stubCheckout: Record<string, string> | undefined;
 
-      if (!orderResult.success || !orderResult.orderId || !orderResult.amount) {
-        throw new Error(orderResult.message || 'Failed to create payment order.');
+      if ('interval' in product && isRecurringPlan(product)) {
+        if (couponCode.trim()) {
+          throw new Error('Coupons can be used for Pro Lifetime and credit packs.');
+        }
+        const subscriptionResult = await createRazorpaySubscription({ idToken, planId: product.id as 'pro_monthly' | 'pro_yearly' });
+        if (!subscriptionResult.success || !subscriptionResult.subscriptionId) {
+          throw new Error(subscriptionResult.message || 'Failed to create subscription.');
+        }
+        checkoutOptions = { subscription_id: subscriptionResult.subscriptionId };
+        stubCheckout = subscriptionResult.stubCheckout;
+      } else {
+        const orderResult = await createCheckout({
+          idToken,
+          productId: product.id as 'pro_lifetime' | CreditPack['id'] | GroupPlanId,
+          couponCode: couponCode.trim() || undefined,
+          ...(asGift && {
+            gift: {
+              recipientEmail: giftRecipientEmail,
+              fromName: user.displayName || undefined,
+              message: giftMessage.trim() || undefined,
+            },
+          }),
+        });
+        if (!orderResult.success || !orderResult.orderId) {
+          throw new Error(orderResult.message || 'Failed to create payment order.');
+        }
+        // A coupon covered the whole price, so there is nothing to pay
+        if (orderResult.completed) {
+          handlePaid(product, orderResult.giftCode);
+          setIsSubscribing(false);
+          return;
+        }
+
+        const checkout = orderResult.checkout!;
+        if (checkout.type === 'redirect') {
+          // Hosted checkout page; the customer comes back to this page afterwards
+          window.location.href = checkout.url;
+          return;
+        }
+        if (checkout.type === 'completed') {
+          // Stub and fake gateways: checkout already happened on the server
+          await verifyPayment(checkout.payload, product, orderResult.gateway);
+          return;
+        }
+        checkoutOptions = { key: checkout.keyId, order_id: checkout.orderId, amount: checkout.amount, currency: checkout.currency };
       }
 
-      const { orderId, amount } = orderResult;
+      // Stub mode: the server already completed checkout, so skip the Razorpay modal
+      if (stubCheckout) {
+        await verifyPayment(stubCheckout, product);
+        return;
+      }
 
       // 2. Configure Razorpay options
       const options: any = {
         key: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
-        amount: amount,
-        currency: "INR",
         name: 'AI Coloring Studio',
-        description: 'Pro Plan - Lifetime Access',
-        order_id: orderId,
-        handler: async function (response: any) {
-          try {
-            // Construct the absolute URL for the API endpoint
-            const verificationUrl = new URL('/api/verify-payment', window.location.origin).href;
-
-            const verificationResponse = await fetch(
-              verificationUrl,
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  razorpay_order_id: response.razorpay_order_id,
-                  razorpay_payment_id: response.razorpay_payment_id,
-                  razorpay_signature: response.razorpay_signature,
-                  userId: user.uid,
-                }),
-              }
-            );
-
-            const verificationResult = await verificationResponse.json();
-
-            if (verificationResult.success) {
-              toast({
-                title: '🎉 Payment Successful!',
-                description: 'You now have unlimited access.',
-              });
-              setPaymentSuccess(true); // Trigger celebration UI
-            } else {
-              toast({
-                variant: 'destructive',
-                title: 'Payment Verification Failed',
-                description: verificationResult.message,
-              });
-            }
-          } catch (error: any) {
-            console.error('Verification request failed:', error);
-            toast({
-              variant: 'destructive',
-              title: 'Error',
-              description: 'Could not communicate with the server for verification.',
-            });
-          } finally {
-            setIsSubscribing(false);
-          }
-        },
+        description: product.description,
+        ...checkoutOptions,
+        handler: (response: Record<string, string>) => verifyPayment(response, product),
         prefill: {
           name: user.displayName || '',
           email: user.email || '',
@@ -226,22 +451,86 @@ export default function SubscribePage() {
                 Unlock Unlimited Creativity
               </h1>
               <p className="mt-4 text-xl text-muted-foreground">
-                Get lifetime access to our AI coloring page generator with a one-time payment.
+                Go Pro monthly or yearly, or get lifetime access with a one-time payment.
               </p>
             </div>
+            {hasRecurringPlan && (
+              <Card className="glass-card w-full max-w-md mx-auto mb-6">
+                <CardHeader className="text-center">
+                  <CardTitle className="text-xl">You're on {PLANS[profile.plan as PlanId]?.name ?? 'Pro'}</CardTitle>
+                  <CardDescription>
+                    {profile.cancelAtPeriodEnd ? 'Ends' : 'Renews'} on{' '}
+                    {profile.currentPeriodEnd?.toDate().toLocaleDateString()}
+                  </CardDescription>
+                </CardHeader>
+                {!profile.cancelAtPeriodEnd && (
+                  <CardFooter>
+                    <Button variant="outline" className="w-full" onClick={handleCancel} disabled={isCancelling}>
+                      {isCancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Cancel Subscription
+                    </Button>
+                  </CardFooter>
+                )}
+              </Card>
+            )}
+            {canStartTrial && (
+              <Card className="glass-card w-full max-w-md mx-auto mb-6">
+                <CardHeader className="text-center">
+                  <Hourglass className="mx-auto h-10 w-10 text-primary" />
+                  <CardTitle className="text-2xl font-bold mt-2">Try Pro free for {TRIAL_DURATION_DAYS} days</CardTitle>
+                  <CardDescription>
+                    No payment needed. You go back to the free plan when the trial ends.
+                  </CardDescription>
+                </CardHeader>
+                <CardFooter>
+                  <Button className="w-full" onClick={handleStartTrial} disabled={isStartingTrial}>
+                    {isStartingTrial && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Start {TRIAL_DURATION_DAYS}-day free trial
+                  </Button>
+                </CardFooter>
+              </Card>
+            )}
+            <div className="grid grid-cols-3 gap-3 w-full max-w-md mx-auto mb-6">
+              {PLAN_ORDER.map((planId) => (
+                <button
+                  key={planId}
+                  type="button"
+                  onClick={() => setSelectedPlanId(planId)}
+                  className={cn(
+                    'rounded-lg border p-3 text-center transition-colors glass-card',
+                    selectedPlanId === planId ? 'border-primary ring-2 ring-primary' : 'border-white/20 hover:border-primary/50'
+                  )}
+                >
+                  <div className="text-sm font-semibold">{PLANS[planId].name.replace('Pro ', '')}</div>
+                  <div className="text-lg font-bold">{priceLabel(planId)}</div>
+                </button>
+              ))}
+            </div>
             <Card className="glass-card w-full max-w-md mx-auto">
               <CardHeader className="text-center">
                 <Crown className="mx-auto h-12 w-12 text-primary" />
-                <CardTitle className="text-3xl font-bold mt-4">Pro Plan</CardTitle>
+                <CardTitle className="text-3xl font-bold mt-4">{selectedPlan.name}</CardTitle>
                 <CardDescription className="text-lg">
-                  Lifetime access. One-time payment.
+                  {isRecurringPlan(selectedPlan)
+                    ? `Billed ${selectedPlan.interval}. Cancel anytime.`
+                    : 'Lifetime access. One-time payment.'}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6 text-center">
                 <div className="text-5xl font-bold">
-                  ₹10
-                  <span className="text-xl font-normal text-muted-foreground">/one-time</span>
+                  {couponPreview?.planId === selectedPlan.id && (
+                    <span className="text-2xl font-normal text-muted-foreground line-through mr-2">{priceLabel(selectedPlan.id)}</span>
+                  )}
+                  {couponPreview?.planId === selectedPlan.id ? formatPrice(couponPreview.amount, couponPreview.currency) : priceLabel(selectedPlan.id)}
+                  <span className="text-xl font-normal text-muted-foreground">{PLAN_PERIOD_LABEL[selectedPlan.id]}</span>
                 </div>
+                {selectedPrice && selectedPrice.tax.rate > 0 && (
+                  <p className="text-sm text-muted-foreground -mt-4">
+                    {selectedPrice.tax.inclusive
+                      ? `Includes ${selectedPrice.tax.rate}% ${selectedPrice.tax.name}`
+                      : `${formatPrice(selectedPrice.listPrice, selectedPrice.currency)} + ${selectedPrice.tax.rate}% ${selectedPrice.tax.name}`}
+                  </p>
+                )}
                 <ul className="space-y-3 text-left">
                   <li className="flex items-center">
                     <Check className="h-5 w-5 text-accent mr-3" />
@@ -258,7 +547,7 @@ export default function SubscribePage() {
                   <li className="flex items-center">
                     <Check className="h-5 w-5 text-accent mr-3" />
                     <span>
-                      <span className="font-semibold">Lifetime</span> access to all features
+                      <span className="font-semibold">{isRecurringPlan(selectedPlan) ? 'Full' : 'Lifetime'}</span> access to all features
                     </span>
                   </li>
                   <li className="flex items-center">
@@ -268,11 +557,29 @@ export default function SubscribePage() {
                 </ul>
               </CardContent>
               <CardFooter className="flex-col gap-4">
+                <div className="flex w-full gap-2">
+                  <Input
+                    placeholder="Coupon code"
+                    value={couponCode}
+                    onChange={(e) => {
+                      setCouponCode(e.target.value);
+                      setCouponPreview(null);
+                    }}
+                    disabled={isSubscribing}
+                  />
+                  <Button variant="outline" onClick={handleApplyCoupon} disabled={isCheckingCoupon || !couponCode.trim()}>
+                    {isCheckingCoupon && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply
+                  </Button>
+                </div>
+                {couponPreview?.planId === selectedPlan.id && couponPreview.bonusCredits > 0 && (
+                  <p className="text-sm text-accent w-full">+{couponPreview.bonusCredits} bonus credits with this purchase</p>
+                )}
                 <Button
                     className="w-full bg-black text-white font-bold text-lg flex items-center justify-center gap-2 border border-white/20"
                     size="lg"
                     onClick={() => handleSubscribe('upi')}
-                    disabled={isSubscribing || !isRazorpayReady}
+                    disabled={isSubscribing || !isRazorpayReady || isPro}
                 >
                     <svg role="img" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" className="h-6 w-6"><title>Google Pay</title><path d="M20.334 8.527L12.012 17.52l-2.31-2.324 4.08-4.078h-3.99V8.527h8.542zm-5.01-1.848h-3.32v3.32l-2.503-2.502-1.39 1.39 3.893 3.893 5.435-5.435-1.39-1.39zM12.012.607l-7.46 7.458v3.91h3.91L12.012 8.42l3.55-3.55zm0 22.786l-8.527-8.527V8.527L12.012.607l8.528 8.527v6.34L12.012 23.393z" fill="white"></path></svg>
                     Pay with Google Pay
@@ -281,17 +588,106 @@ export default function SubscribePage() {
                   className="w-full bg-gradient-to-r from-primary to-accent text-primary-foreground font-bold text-lg"
                   size="lg"
                   onClick={() => handleSubscribe()}
-                  disabled={isSubscribing || !isRazorpayReady}
+                  disabled={isSubscribing || !isRazorpayReady || isPro}
                 >
                   {isSubscribing ? (
                     <Loader2 className="mr-2 h-5 w-5 animate-spin" />
                   ) : (
                     <Sparkles className="mr-2 h-5 w-5" />
                   )}
-                  {isSubscribing ? 'Processing...' : 'Upgrade to Pro'}
+                  {isSubscribing ? 'Processing...' : isPro ? "You're already Pro" : 'Upgrade to Pro'}
                 </Button>
               </CardFooter>
             </Card>
+            {!isPro && (
+              <Card id="credit-packs" className="glass-card w-full max-w-md mx-auto mt-6">
+                <CardHeader className="text-center">
+                  <Coins className="mx-auto h-10 w-10 text-primary" />
+                  <CardTitle className="text-2xl font-bold mt-2">Just need a few more pages?</CardTitle>
+                  <CardDescription>
+                    Credits are used after your free generations and never expire.
+                    {profile?.credits > 0 && ` You have ${profile.credits} left.`}
+                  </CardDescription>
+                </CardHeader>
+                <CardFooter className="grid grid-cols-2 gap-3">
+                  {Object.values(CREDIT_PACKS).map((pack) => (
+                    <Button
+                      key={pack.id}
+                      variant="outline"
+                      className="h-auto flex-col py-3"
+                      onClick={() => handleSubscribe(undefined, pack)}
+                      disabled={isSubscribing || !isRazorpayReady}
+                    >
+                      <span className="font-semibold">{pack.name}</span>
+                      <span className="text-muted-foreground">{priceLabel(pack.id)}</span>
+                    </Button>
+                  ))}
+                </CardFooter>
+              </Card>
+            )}
+            <Card id="group-plans" className="glass-card w-full max-w-md mx-auto mt-6">
+              <CardHeader className="text-center">
+                <Users className="mx-auto h-10 w-10 text-primary" />
+                <CardTitle className="text-2xl font-bold mt-2">For families and classrooms</CardTitle>
+                <CardDescription>
+                  One shared pool of generations for everyone you invite. Members use the pool before their own quota.
+                </CardDescription>
+              </CardHeader>
+              <CardFooter className="grid grid-cols-2 gap-3">
+                {Object.values(GROUP_PLANS).map((plan) => (
+                  <Button
+                    key={plan.id}
+                    variant="outline"
+                    className="h-auto flex-col py-3"
+                    onClick={() => handleSubscribe(undefined, plan)}
+                    disabled={isSubscribing || !isRazorpayReady}
+                  >
+                    <span className="font-semibold">{plan.name}</span>
+                    <span className="text-xs text-muted-foreground">{plan.seats} seats · {plan.generations} pages</span>
+                    <span className="text-muted-foreground">{priceLabel(plan.id)}</span>
+                  </Button>
+                ))}
+              </CardFooter>
+            </Card>
+            <Card id="gift" className="glass-card w-full max-w-md mx-auto mt-6">
+              <CardHeader className="text-center">
+                <Gift className="mx-auto h-10 w-10 text-primary" />
+                <CardTitle className="text-2xl font-bold mt-2">Give it as a gift</CardTitle>
+                <CardDescription>
+                  We'll give you a gift code and a card to send. They redeem it with their own account.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Input
+                  type="email"
+                  placeholder="Recipient's email"
+                  value={giftRecipientEmail}
+                  onChange={(e) => setGiftRecipientEmail(e.target.value)}
+                  disabled={isSubscribing}
+                />
+                <Textarea
+                  placeholder="Add a personal message (optional)"
+                  value={giftMessage}
+                  onChange={(e) => setGiftMessage(e.target.value)}
+                  maxLength={500}
+                  disabled={isSubscribing}
+                />
+              </CardContent>
+              <CardFooter className="grid grid-cols-3 gap-3">
+                {[PLANS.pro_lifetime, ...Object.values(CREDIT_PACKS)].map((product) => (
+                  <Button
+                    key={product.id}
+                    variant="outline"
+                    className="h-auto flex-col py-3"
+                    onClick={() => handleSubscribe(undefined, product, true)}
+                    disabled={isSubscribing || !isRazorpayReady}
+                  >
+                    <span className="font-semibold">{'credits' in product ? `${product.credits} credits` : 'Pro Lifetime'}</span>
+                    <span className="text-muted-foreground">{priceLabel(product.id)}</span>
+                  </Button>
+                ))}
+              </CardFooter>
+            </Card>
             <p className="text-center text-xs text-muted-foreground mt-4">
               Payments are securely processed by Razorpay.
             </p>
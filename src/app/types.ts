@@ -1,3 +1,8 @@
+import type { EntitlementErrorCode, Resolution } from '@/lib/entitlements';
+import type { ColoringStyle } from '@/lib/coloring-styles';
+import type { Difficulty } from '@/lib/difficulty';
+import type { PageFormat } from '@/lib/page-formats';
+
 export interface ImageResult {
   imageUrl: string;
   prompt: string;
@@ -5,14 +10,61 @@ export interface ImageResult {
 
 export interface FormState {
   message: string | null;
-  image: ImageResult | null;
   success: boolean;
   prompt: string | null;
+  jobId: string | null;
+  errorCode?: EntitlementErrorCode; // Set when the user isn't entitled to the generation
 }
 
 export const initialFormState: FormState = {
     message: null,
-    image: null,
     success: false,
     prompt: null,
+    jobId: null,
 };
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * How long a job may sit queued or running without an update before it is presumed
+ * lost (its instance died) and failed, with its generation given back.
+ * Comfortably longer than a provider call, retries and failover included.
+ */
+export const GENERATION_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Why a job failed. `timeout`, `rate_limited` and `service_unavailable` are the image
+ * service's fault and worth retrying later; `generation_failed` means it couldn't make
+ * this page.
+ */
+export type GenerationJobErrorCode = 'timeout' | 'rate_limited' | 'service_unavailable' | 'generation_failed' | 'internal';
+
+/**
+ * Which backend produced an image, recorded on its job and on the image.
+ */
+export interface GenerationBackend {
+  provider: string;
+  endpoint?: string; // The n8n webhook that served it, by its configured name
+  latencyMs: number; // Provider time, retries and failover included
+}
+
+/**
+ * A single image generation request, stored at `users/{userId}/generationJobs/{jobId}`.
+ * Written only by the server; the client subscribes to it for live status.
+ */
+export interface GenerationJob {
+  prompt: string;
+  resolution?: Resolution; // Missing on jobs from before the option existed
+  style?: ColoringStyle;
+  difficulty?: Difficulty;
+  pageFormat?: PageFormat;
+  userId: string;
+  status: GenerationJobStatus;
+  imageUrl?: string;
+  imageId?: string;
+  backend?: GenerationBackend;
+  errorCode?: GenerationJobErrorCode;
+  errorMessage?: string;
+  createdAt: any;
+  updatedAt: any;
+}
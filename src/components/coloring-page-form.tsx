@@ -1,25 +1,26 @@
 'use client';
 
 import Image from 'next/image';
-import { useActionState, useEffect, useRef, useState, useTransition, Suspense } from 'react';
-import jsPDF from 'jspdf';
+import { useActionState, useCallback, useEffect, useRef, useState, useTransition, Suspense } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
 
-import { generateImageAction } from '@/app/actions';
-import { type FormState, initialFormState } from '@/app/types';
+import { failStaleJobsAction, generateImageAction } from '@/app/actions';
+import { GENERATION_JOB_TIMEOUT_MS, type GenerationJob, initialFormState } from '@/app/types';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Download, RefreshCw, Sparkles, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useFirebase } from '@/firebase';
-import { doc, onSnapshot } from 'firebase/firestore';
+import { useCollection, useDoc, useFirebase, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, where } from 'firebase/firestore';
 import { MotionDiv } from './motion-div';
 import { UpgradeProModal } from './upgrade-pro-modal';
 import { cn } from '@/lib/utils';
-
-const FREE_GENERATION_LIMIT = 5;
+import { useEntitlements } from '@/hooks/use-entitlements';
+import { COLORING_STYLES, DEFAULT_STYLE, STYLE_PRESETS, type ColoringStyle } from '@/lib/coloring-styles';
+import { DEFAULT_DIFFICULTY, DIFFICULTY, DIFFICULTY_LEVELS, type Difficulty } from '@/lib/difficulty';
+import { DEFAULT_PAGE_FORMAT, PAGE_FORMATS, PAGE_FORMAT_SPECS, renderPagePdf, type PageFormat } from '@/lib/page-formats';
 
 const examplePrompts = [
   "a majestic lion with a crown of stars",
@@ -48,20 +49,61 @@ function SubmitButton({ isPending, disabled, isPro }: { isPending: boolean; disa
                 <Sparkles className="mr-2" />
             </motion.div>
         ) : <Sparkles className="mr-2" />}
-        {isPending ? 'Generating...' : isPro ? 'Generate Instantly' : 'Generate Image'}
+        {isPending ? 'Queueing...' : isPro ? 'Generate Instantly' : 'Generate Image'}
       </Button>
   );
 }
 
-function ResultDisplay({ state, onReset }: { state: FormState, onReset: () => void }) {
+function OptionPicker<T extends string>({ label, options, value, onChange, disabled }: {
+  label: string;
+  options: readonly { id: T; name: string; description: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled: boolean;
+}) {
+  return (
+      <div role="radiogroup" aria-label={label} className="flex flex-wrap justify-center gap-2 mb-4">
+        {options.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              role="radio"
+              aria-checked={value === option.id}
+              title={option.description}
+              onClick={() => onChange(option.id)}
+              disabled={disabled}
+              className={cn(
+                'rounded-full border px-3 py-1 text-sm transition-colors glass-card disabled:opacity-50',
+                value === option.id ? 'border-primary ring-2 ring-primary' : 'border-white/20 hover:border-primary/50'
+              )}
+            >
+              {option.name}
+            </button>
+        ))}
+      </div>
+  );
+}
+
+const styleOptions = COLORING_STYLES.map((style) => STYLE_PRESETS[style]);
+
+const difficultyOptions = DIFFICULTY_LEVELS.map((level) => ({
+  ...DIFFICULTY[level],
+  description: `Ages ${DIFFICULTY[level].ages}`,
+}));
+
+const pageFormatOptions = PAGE_FORMATS.map((format) => PAGE_FORMAT_SPECS[format]);
+
+function ResultDisplay({ imageUrl, prompt, pageFormat, onReset }: { imageUrl: string, prompt: string, pageFormat: PageFormat, onReset: () => void }) {
     const [isDownloading, setIsDownloading] = useState(false);
     const {toast} = useToast();
+    // The page was generated at its format's aspect ratio, so preview it at that shape
+    const [ratioWidth, ratioHeight] = PAGE_FORMAT_SPECS[pageFormat].aspectRatio.split(':').map(Number);
 
     const handleDownload = async () => {
-        if (!state.image?.imageUrl || !state.image?.prompt) return;
+        if (!imageUrl || !prompt) return;
         setIsDownloading(true);
         try {
-            const response = await fetch(state.image.imageUrl);
+            const response = await fetch(imageUrl);
             const blob = await response.blob();
             const reader = new FileReader();
             reader.readAsDataURL(blob);
@@ -70,13 +112,8 @@ function ResultDisplay({ state, onReset }: { state: FormState, onReset: () => vo
                 const image = document.createElement('img');
                 image.src = base64data;
                 image.onload = () => {
-                    const pdf = new jsPDF({
-                        orientation: image.naturalWidth > image.naturalHeight ? 'landscape' : 'portrait',
-                        unit: 'px',
-                        format: [image.naturalWidth, image.naturalHeight]
-                    });
-                    pdf.addImage(base64data, 'PNG', 0, 0, image.naturalWidth, image.naturalHeight);
-                    pdf.save(`${state.image.prompt?.slice(0, 20)}.pdf`);
+                    const pdf = renderPagePdf(base64data, image.naturalWidth, image.naturalHeight, pageFormat);
+                    pdf.save(`${prompt.slice(0, 20)}.pdf`);
                     setIsDownloading(false);
                 };
             };
@@ -90,12 +127,12 @@ function ResultDisplay({ state, onReset }: { state: FormState, onReset: () => vo
     return (
         <MotionDiv initial={{opacity: 0, scale: 0.9}} animate={{opacity: 1, scale: 1}} transition={{duration: 0.5}} className="mt-8">
             <div className="flex flex-col gap-4 max-w-md mx-auto">
-                 <div className="aspect-square w-full rounded-lg overflow-hidden glass-card p-2 bg-white/10">
+                 <div className="w-full rounded-lg overflow-hidden glass-card p-2 bg-white/10" style={{ aspectRatio: `${ratioWidth} / ${ratioHeight}` }}>
                       <Image 
-                        src={state.image.imageUrl!}
-                        alt={state.image.prompt}
+                        src={imageUrl}
+                        alt={prompt}
                         width={512}
-                        height={512}
+                        height={Math.round((512 * ratioHeight) / ratioWidth)}
                         className="object-contain w-full h-full rounded-md"
                         unoptimized
                       />
@@ -115,36 +152,116 @@ function ResultDisplay({ state, onReset }: { state: FormState, onReset: () => vo
     );
 }
 
+function GenerationJobCard({ userId, jobId, onDismiss, onRetry, onStale }: { userId: string, jobId: string, onDismiss: (jobId: string) => void, onRetry: (job: GenerationJob) => void, onStale: () => void }) {
+    const { firestore } = useFirebase();
+    const jobRef = useMemoFirebase(
+        () => doc(firestore, `users/${userId}/generationJobs/${jobId}`),
+        [firestore, userId, jobId]
+    );
+    const { data: job } = useDoc<GenerationJob>(jobRef);
+
+    // A job that stops moving lost its server; have it failed so the generation is given back
+    const isInFlight = job?.status === 'queued' || job?.status === 'running';
+    const lastUpdate: number | undefined = job?.updatedAt?.toMillis?.();
+    useEffect(() => {
+        if (!isInFlight || lastUpdate === undefined) {
+            return;
+        }
+        const timer = setTimeout(onStale, Math.max(0, lastUpdate + GENERATION_JOB_TIMEOUT_MS - Date.now()));
+        return () => clearTimeout(timer);
+    }, [isInFlight, lastUpdate, onStale]);
+
+    if (!job) {
+        return null;
+    }
+
+    if (job.status === 'succeeded' && job.imageUrl) {
+        return <ResultDisplay imageUrl={job.imageUrl} prompt={job.prompt} pageFormat={job.pageFormat ?? DEFAULT_PAGE_FORMAT} onReset={() => onDismiss(jobId)} />;
+    }
+
+    if (job.status === 'failed') {
+        return (
+            <Alert variant="destructive" className="mt-6 text-left">
+                <AlertTitle>❌ Generation Failed</AlertTitle>
+                <AlertDescription>
+                    <p>{job.errorMessage || 'Something went wrong. Please try again.'}</p>
+                    <p className="text-xs mt-1">&quot;{job.prompt}&quot;</p>
+                    <div className="mt-4 flex gap-2">
+                        <Button onClick={() => { onDismiss(jobId); onRetry(job); }} variant="destructive">
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                            Try Again
+                        </Button>
+                        <Button onClick={() => onDismiss(jobId)} variant="ghost">
+                            <X className="mr-2 h-4 w-4" />
+                            Dismiss
+                        </Button>
+                    </div>
+                </AlertDescription>
+            </Alert>
+        );
+    }
+
+    return (
+        <motion.div initial={{opacity: 0}} animate={{opacity: 1}} className="w-full flex items-center justify-center text-center text-muted-foreground mt-6 glass-card rounded-lg p-6">
+            <div>
+                <Sparkles className="mx-auto h-12 w-12 mb-4 text-primary animate-[pulse_2s_cubic-bezier(0.4,0,0.6,1)_infinite]" />
+                <p className="font-semibold text-lg">
+                    {job.status === 'queued' ? '⏳ Waiting in the queue...' : '✨ Generating your coloring page...'}
+                </p>
+                <p className="text-sm">&quot;{job.prompt}&quot;</p>
+            </div>
+        </motion.div>
+    );
+}
+
+/** Adds job IDs that aren't tracked yet, newest first. */
+function mergeJobIds(tracked: string[], incoming: string[]): string[] {
+    const fresh = incoming.filter((id) => !tracked.includes(id));
+    return fresh.length ? [...fresh, ...tracked] : tracked;
+}
+
 export function ColoringPageForm() {
   const [state, formAction] = useActionState(generateImageAction, initialFormState);
   const [isPending, startTransition] = useTransition();
   const formRef = useRef<HTMLFormElement>(null);
   const router = useRouter();
-  const { firestore, user, isUserLoading } = useFirebase();
-  const [userProfile, setUserProfile] = useState<{generationCount: number, isSubscribed: boolean} | null>(null);
-  const [isProfileLoading, setIsProfileLoading] = useState(true);
+  const { firestore, user } = useFirebase();
+  const { entitlements, isLoading: isProfileLoading } = useEntitlements();
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
-  
+  const [style, setStyle] = useState<ColoringStyle>(DEFAULT_STYLE);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [pageFormat, setPageFormat] = useState<PageFormat>(DEFAULT_PAGE_FORMAT);
+
+  const hasExceededLimit = !!entitlements && !entitlements.nextSource;
+  const isPro = !!entitlements?.features.unlimited_generations;
+  const needsUpgrade = state.errorCode === 'limit_reached' || state.errorCode === 'resolution_not_allowed';
+
+  // Jobs still in flight are picked up again after a page reload.
+  const activeJobsQuery = useMemoFirebase(
+    () => (user && firestore ? query(collection(firestore, `users/${user.uid}/generationJobs`), where('status', 'in', ['queued', 'running'])) : null),
+    [user, firestore]
+  );
+  const { data: activeJobs } = useCollection<GenerationJob>(activeJobsQuery);
+  const [trackedJobIds, setTrackedJobIds] = useState<string[]>([]);
+
   useEffect(() => {
-    if (user && firestore) {
-      setIsProfileLoading(true);
-      const unsub = onSnapshot(doc(firestore, 'users', user.uid), (doc) => {
-        if (doc.exists()) {
-          setUserProfile(doc.data() as { generationCount: number; isSubscribed: boolean });
-        }
-        setIsProfileLoading(false);
-      });
-      return () => unsub();
-    } else if (!isUserLoading) {
-      setIsProfileLoading(false);
-      setUserProfile(null);
+    setTrackedJobIds([]);
+  }, [user?.uid]);
+
+  useEffect(() => {
+    if (activeJobs?.length) {
+      setTrackedJobIds((ids) => mergeJobIds(ids, activeJobs.map((job) => job.id)));
     }
-  }, [user, firestore, isUserLoading]);
+  }, [activeJobs]);
 
-  const hasExceededLimit = userProfile ? !userProfile.isSubscribed && userProfile.generationCount >= FREE_GENERATION_LIMIT : false;
-  const isPro = userProfile?.isSubscribed === true;
+  useEffect(() => {
+    if (state.success && state.jobId) {
+      setTrackedJobIds((ids) => mergeJobIds(ids, [state.jobId!]));
+      formRef.current?.reset();
+    }
+  }, [state.success, state.jobId]);
 
-  const handleFormSubmit = (formData: FormData) => {
+  const handleFormSubmit = async (formData: FormData) => {
     if (!user) {
       router.push('/login');
       return;
@@ -153,78 +270,80 @@ export function ColoringPageForm() {
       setShowUpgradeModal(true);
       return;
     }
-    formData.append('userId', user.uid);
+    formData.append('idToken', await user.getIdToken());
     startTransition(() => {
         formAction(formData);
     });
   }
 
-  const resetForm = () => {
-    formAction(initialFormState as any);
-    if (formRef.current) {
-        formRef.current.reset();
+  // Retries ask for the same page again, whatever is picked in the form now
+  const handleRetry = (job: GenerationJob) => {
+    const formData = new FormData();
+    formData.append('prompt', job.prompt);
+    formData.append('style', job.style ?? DEFAULT_STYLE);
+    formData.append('difficulty', job.difficulty ?? DEFAULT_DIFFICULTY);
+    formData.append('pageFormat', job.pageFormat ?? DEFAULT_PAGE_FORMAT);
+    handleFormSubmit(formData);
+  };
+
+  const failStaleJobs = useCallback(async () => {
+    if (user) {
+      await failStaleJobsAction(await user.getIdToken());
     }
+  }, [user]);
+
+  const dismissJob = (jobId: string) => {
+    setTrackedJobIds((ids) => ids.filter((id) => id !== jobId));
   };
 
   useEffect(() => {
-    if (state.message && !state.success && !isPending) {
-        if (state.message.includes('Free generation limit reached')) {
-            setShowUpgradeModal(true);
-        } else {
-             // Let the alert component handle other errors
-        }
+    // Refusals an upgrade would fix open the upgrade prompt; the alert component handles other errors
+    if (needsUpgrade && !state.success && !isPending) {
+        setShowUpgradeModal(true);
     }
-  }, [state.message, state.success, isPending]);
+  }, [needsUpgrade, state.success, isPending]);
 
-  const generationsLeft = userProfile ? FREE_GENERATION_LIMIT - userProfile.generationCount : FREE_GENERATION_LIMIT;
-  
-  const showLoading = isPending && state.prompt;
-  const showResult = state.success && state.image && !isPending;
-  const showError = !state.success && state.message && !isPending && !state.message.includes('limit reached');
+  const showError = !state.success && !!state.message && !isPending && !needsUpgrade;
 
-  const isDisabled = isPending || isProfileLoading || (hasExceededLimit && !isPro);
+  const isDisabled = isPending || isProfileLoading || hasExceededLimit;
 
   return (
       <div className="w-full max-w-2xl mx-auto">
+        <OptionPicker label="Style" options={styleOptions} value={style} onChange={setStyle} disabled={isDisabled} />
+        <OptionPicker label="Difficulty" options={difficultyOptions} value={difficulty} onChange={setDifficulty} disabled={isDisabled} />
+        <OptionPicker label="Page format" options={pageFormatOptions} value={pageFormat} onChange={setPageFormat} disabled={isDisabled} />
+        <form action={handleFormSubmit} ref={formRef} className="flex gap-2">
+            <input type="hidden" name="style" value={style} />
+            <input type="hidden" name="difficulty" value={difficulty} />
+            <input type="hidden" name="pageFormat" value={pageFormat} />
+            <Input
+                name="prompt"
+                placeholder='e.g., a majestic lion with a crown of stars'
+                className="flex-grow text-base h-12 shadow-inner bg-black/30 border-ring/50 focus:border-ring focus:shadow-[0_0_15px_hsl(var(--ring))] transition-all duration-300"
+                disabled={isDisabled}
+            />
+            <SubmitButton isPending={isPending} disabled={isDisabled} isPro={isPro} />
+        </form>
+
+        {showError && (
+            <Alert variant="destructive" className="mt-6 text-left">
+            <AlertTitle>❌ Generation Failed</AlertTitle>
+            <AlertDescription>
+                <p>{state.message?.replace('❌', '').trim()}</p>
+                <div className="mt-4">
+                <Button onClick={() => formRef.current?.requestSubmit()} variant="destructive">
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Try Again
+                </Button>
+                </div>
+            </AlertDescription>
+            </Alert>
+        )}
+
         <AnimatePresence>
-            {showResult ? (
-                 <ResultDisplay state={state} onReset={resetForm} />
-            ) : showLoading ? (
-                 <motion.div initial={{opacity: 0}} animate={{opacity: 1}} className="w-full aspect-square flex items-center justify-center text-center text-muted-foreground mt-6">
-                    <div>
-                        <Sparkles className="mx-auto h-12 w-12 mb-4 text-primary animate-[pulse_2s_cubic-bezier(0.4,0,0.6,1)_infinite]" />
-                        <p className="font-semibold text-lg">✨ Generating your coloring page...</p>
-                        <p className="text-sm">&quot;{state.prompt}&quot;</p>
-                    </div>
-                </motion.div>
-            ) : (
-                <>
-                <form action={handleFormSubmit} ref={formRef} className="flex gap-2">
-                    <Input
-                        name="prompt"
-                        placeholder='e.g., a majestic lion with a crown of stars'
-                        className="flex-grow text-base h-12 shadow-inner bg-black/30 border-ring/50 focus:border-ring focus:shadow-[0_0_15px_hsl(var(--ring))] transition-all duration-300"
-                        disabled={isDisabled}
-                    />
-                    <SubmitButton isPending={isPending} disabled={isDisabled} isPro={isPro} />
-                </form>
-
-                {showError && (
-                    <Alert variant="destructive" className="mt-6 text-left">
-                    <AlertTitle>❌ Generation Failed</AlertTitle>
-                    <AlertDescription>
-                        <p>{state.message.replace('❌', '').trim()}</p>
-                        <div className="mt-4">
-                        <Button onClick={() => formRef.current?.requestSubmit()} variant="destructive">
-                            <RefreshCw className="mr-2 h-4 w-4" />
-                            Try Again
-                        </Button>
-                        </div>
-                    </AlertDescription>
-                    </Alert>
-                )}
-                </>
-            )}
+            {user && trackedJobIds.map((jobId) => (
+                <GenerationJobCard key={jobId} userId={user.uid} jobId={jobId} onDismiss={dismissJob} onRetry={handleRetry} onStale={failStaleJobs} />
+            ))}
         </AnimatePresence>
         <UpgradeProModal isOpen={showUpgradeModal} onClose={() => setShowUpgradeModal(false)} />
       </div>
@@ -3,45 +3,63 @@
 import Link from "next/link";
 import { useFirebase } from "@/firebase";
 import { UserNav } from "@/components/user-nav";
+import { NotificationListener } from "@/components/notification-listener";
+import { TrialEndedModal } from "@/components/trial-ended-modal";
 import { Button } from "./ui/button";
-import { Crown, Loader2, Palette } from "lucide-react";
+import { Crown, Hourglass, Loader2, Palette } from "lucide-react";
 import { useEffect, useState } from "react";
-import { doc, onSnapshot } from "firebase/firestore";
 import { motion } from "framer-motion";
+import { useEntitlements } from "@/hooks/use-entitlements";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Remembers per account that the end-of-trial prompt was dismissed, so it is only shown once
+const trialPromptKey = (uid: string) => `trialEndedPromptSeen:${uid}`;
+
+function formatTrialLeft(ms: number): string {
+    if (ms >= DAY_MS) {
+        const days = Math.ceil(ms / DAY_MS);
+        return `${days} ${days === 1 ? 'day' : 'days'} of Pro left`;
+    }
+    const hours = Math.max(Math.ceil(ms / HOUR_MS), 1);
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'} of Pro left`;
+}
 
 export function Header() {
-    const { user, isUserLoading, firestore } = useFirebase();
+    const { user } = useFirebase();
+    const { entitlements, isLoading } = useEntitlements();
     const [isMounted, setIsMounted] = useState(false);
-    const [isSubscribed, setIsSubscribed] = useState(false);
-    const [isProfileLoading, setIsProfileLoading] = useState(true);
+    const [now, setNow] = useState(() => Date.now());
+    const [showTrialEnded, setShowTrialEnded] = useState(false);
 
     useEffect(() => {
         setIsMounted(true);
     }, []);
 
+    const isSubscribed = entitlements?.isPro ?? false;
+    const isOnTrial = entitlements?.plan === 'trial';
+    const trialEndsAt = entitlements?.trialEndsAt ?? null;
+
+    // Tick the countdown while a trial runs
     useEffect(() => {
-        if (user && firestore) {
-            setIsProfileLoading(true);
-            const userDocRef = doc(firestore, 'users', user.uid);
-            const unsubscribe = onSnapshot(userDocRef, (doc) => {
-                if (doc.exists()) {
-                    setIsSubscribed(doc.data().isSubscribed === true);
-                } else {
-                    setIsSubscribed(false);
-                }
-                setIsProfileLoading(false);
-            }, (error) => {
-                console.error("Failed to listen to user profile:", error);
-                setIsSubscribed(false);
-                setIsProfileLoading(false);
-            });
+        if (!isOnTrial) return;
+        setNow(Date.now());
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, [isOnTrial]);
 
-            return () => unsubscribe();
-        } else if (!isUserLoading) {
-            setIsProfileLoading(false);
-            setIsSubscribed(false);
+    useEffect(() => {
+        if (!user || isSubscribed || isOnTrial || trialEndsAt === null) return;
+        if (!localStorage.getItem(trialPromptKey(user.uid))) {
+            setShowTrialEnded(true);
         }
-    }, [user, firestore, isUserLoading]);
+    }, [user, isSubscribed, isOnTrial, trialEndsAt]);
+
+    const closeTrialEnded = () => {
+        if (user) localStorage.setItem(trialPromptKey(user.uid), '1');
+        setShowTrialEnded(false);
+    };
 
     return (
         <motion.header 
@@ -59,11 +77,18 @@ export function Header() {
                 <div className="flex items-center space-x-4">
                     {isMounted && (
                       <>
-                        {isUserLoading || (user && isProfileLoading) ? (
+                        {isLoading ? (
                             <Loader2 className="h-5 w-5 animate-spin" />
                         ) : user ? (
                             <div className="flex items-center gap-2 sm:gap-4">
-                                {!isSubscribed && (
+                                {isOnTrial ? (
+                                    <Button asChild size="sm" variant="outline">
+                                        <Link href="/subscribe">
+                                            <Hourglass className="mr-2 h-4 w-4" />
+                                            {formatTrialLeft(trialEndsAt! - now)}
+                                        </Link>
+                                    </Button>
+                                ) : !isSubscribed && (
                                     <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
                                     <Button asChild size="sm" className="bg-gradient-to-r from-primary to-accent text-primary-foreground shadow-[0_0_15px_theme(colors.cyan.400)] hover:shadow-[0_0_25px_theme(colors.cyan.300)] transition-all">
                                         <Link href="/subscribe">
@@ -74,6 +99,7 @@ export function Header() {
                                     </motion.div>
                                 )}
                                 <UserNav user={user} isSubscribed={isSubscribed} />
+                                <NotificationListener />
                             </div>
                         ) : (
                             <Button asChild>
@@ -84,6 +110,7 @@ export function Header() {
                     )}
                 </div>
             </div>
+            <TrialEndedModal isOpen={showTrialEnded} onClose={closeTrialEnded} />
         </motion.header>
     );
 }
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { updateDocumentNonBlocking, useCollection, useFirebase, useMemoFirebase } from '@/firebase';
+import { useToast } from '@/hooks/use-toast';
+
+interface UserNotification {
+  title: string;
+  body: string;
+  read: boolean;
+}
+
+/**
+ * Shows unread server notifications (refunds, billing changes) as toasts, once each.
+ */
+export function NotificationListener() {
+  const { user, firestore } = useFirebase();
+  const { toast } = useToast();
+
+  const unreadQuery = useMemoFirebase(
+    () => (user && firestore ? query(collection(firestore, `users/${user.uid}/notifications`), where('read', '==', false)) : null),
+    [user, firestore]
+  );
+  const { data: notifications } = useCollection<UserNotification>(unreadQuery);
+
+  useEffect(() => {
+    if (!user || !notifications?.length) return;
+
+    for (const notification of notifications) {
+      toast({ title: notification.title, description: notification.body });
+      updateDocumentNonBlocking(doc(firestore, `users/${user.uid}/notifications`, notification.id), { read: true });
+    }
+  }, [notifications, user, firestore, toast]);
+
+  return null;
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from './ui/button';
+import { Crown, Sparkles } from 'lucide-react';
+
+interface TrialEndedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function TrialEndedModal({ isOpen, onClose }: TrialEndedModalProps) {
+  const router = useRouter();
+
+  const handleUpgrade = () => {
+    onClose();
+    router.push('/subscribe');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="glass-card text-center p-8">
+        <DialogHeader>
+          <motion.div
+            animate={{ scale: [1, 1.2, 1], rotate: [-10, 10, -10, 0] }}
+            transition={{ duration: 1, ease: 'easeInOut' }}
+          >
+            <Crown className="mx-auto h-16 w-16 text-yellow-400" style={{ filter: "drop-shadow(0 0 10px hsl(var(--pro-accent-glow)))" }} />
+          </motion.div>
+          <DialogTitle className="text-3xl font-bold gradient-text mt-4">
+            Your Pro Trial Has Ended
+          </DialogTitle>
+          <DialogDescription className="text-muted-foreground mt-2 text-lg">
+            You're back on the free plan. Upgrade to keep unlimited generations and instant results.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="mt-6 space-y-3">
+          <Button
+            size="lg"
+            className="w-full bg-gradient-to-r from-primary to-accent text-primary-foreground font-bold"
+            onClick={handleUpgrade}
+          >
+            <Sparkles className="mr-2" />
+            Keep Pro
+          </Button>
+          <Button
+            size="lg"
+            variant="ghost"
+            className="w-full"
+            onClick={onClose}
+          >
+            Maybe Later
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,8 @@ import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from './ui/button';
-import { Crown, Sparkles } from 'lucide-react';
+import { Coins, Crown, Sparkles } from 'lucide-react';
+import { CREDIT_PACKS } from '@/lib/plans';
 
 interface UpgradeProModalProps {
   isOpen: boolean;
@@ -19,6 +20,11 @@ export function UpgradeProModal({ isOpen, onClose }: UpgradeProModalProps) {
     router.push('/subscribe');
   };
 
+  const handleBuyCredits = () => {
+    onClose();
+    router.push('/subscribe#credit-packs');
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="glass-card text-center p-8">
@@ -33,10 +39,10 @@ export function UpgradeProModal({ isOpen, onClose }: UpgradeProModalProps) {
             You've Reached Your Limit!
           </DialogTitle>
           <DialogDescription className="text-muted-foreground mt-2 text-lg">
-            Upgrade to Pro to unlock unlimited image generations and more.
+            Upgrade to Pro to unlock unlimited image generations and more, or top up with a credit pack.
           </DialogDescription>
         </DialogHeader>
-        <div className="mt-6">
+        <div className="mt-6 space-y-3">
           <Button
             size="lg"
             className="w-full bg-gradient-to-r from-primary to-accent text-primary-foreground font-bold"
@@ -45,6 +51,15 @@ export function UpgradeProModal({ isOpen, onClose }: UpgradeProModalProps) {
             <Sparkles className="mr-2" />
             Upgrade to Pro
           </Button>
+          <Button
+            size="lg"
+            variant="outline"
+            className="w-full font-bold"
+            onClick={handleBuyCredits}
+          >
+            <Coins className="mr-2" />
+            Buy {CREDIT_PACKS.credits_20.credits} More Pages
+          </Button>
         </div>
       </DialogContent>
     </Dialog>
@@ -15,7 +15,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { type User } from 'firebase/auth';
 import { useAuth } from '@/firebase';
 import { useRouter } from 'next/navigation';
-import { GalleryHorizontal, LogOut, User as UserIcon, Crown } from 'lucide-react';
+import { GalleryHorizontal, Home, LogOut, Receipt, User as UserIcon, Crown, Users } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface UserNavProps {
@@ -86,6 +86,24 @@ export function UserNav({ user, isSubscribed }: UserNavProps) {
               <span>My Creations</span>
             </Link>
           </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/account/billing">
+              <Receipt className="mr-2" />
+              <span>Plan &amp; Billing</span>
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/account/referrals">
+              <Users className="mr-2" />
+              <span>Invite Friends</span>
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/account/group">
+              <Home className="mr-2" />
+              <span>Family &amp; Classroom</span>
+            </Link>
+          </DropdownMenuItem>
           {!isSubscribed && (
             <DropdownMenuItem asChild>
               <Link href="/subscribe">
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { useFirebase } from '@/firebase';
+import { getEntitlements, type EntitlementProfile, type Entitlements } from '@/lib/entitlements';
+
+// setTimeout fires immediately for longer delays
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export interface UseEntitlementsResult {
+  entitlements: Entitlements | null; // Null while loading, and when signed out
+  isLoading: boolean;
+}
+
+/**
+ * The signed-in user's entitlements, kept up to date with their profile. Group members
+ * are assumed to have pool left; the API has the final say when they generate.
+ */
+export function useEntitlements(): UseEntitlementsResult {
+  const { user, isUserLoading, firestore } = useFirebase();
+  const [profile, setProfile] = useState<EntitlementProfile | null>(null);
+  const [isProfileLoading, setIsProfileLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (user && firestore) {
+      setIsProfileLoading(true);
+      const unsubscribe = onSnapshot(doc(firestore, 'users', user.uid), (snapshot) => {
+        setProfile(snapshot.exists() ? (snapshot.data() as EntitlementProfile) : null);
+        setIsProfileLoading(false);
+      }, (error) => {
+        console.error('Failed to listen to user profile:', error);
+        setProfile(null);
+        setIsProfileLoading(false);
+      });
+
+      return () => unsubscribe();
+    } else if (!isUserLoading) {
+      setProfile(null);
+      setIsProfileLoading(false);
+    }
+  }, [user, firestore, isUserLoading]);
+
+  // A trial ends without the profile changing, so recompute when it does
+  const trialEndsAt = profile?.trialEndsAt?.toMillis();
+  useEffect(() => {
+    if (!trialEndsAt || trialEndsAt <= Date.now()) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.min(trialEndsAt - Date.now(), MAX_TIMEOUT_MS));
+    return () => clearTimeout(timeout);
+  }, [trialEndsAt, now]);
+
+  const entitlements = useMemo(
+    () => (user && !isProfileLoading ? getEntitlements(profile, { userId: user.uid, now }) : null),
+    [user, isProfileLoading, profile, now]
+  );
+
+  return { entitlements, isLoading: isUserLoading || (!!user && isProfileLoading) };
+}
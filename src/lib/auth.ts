@@ -0,0 +1,92 @@
+// lib/auth.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth } from '@/lib/firebaseAdmin';
+
+/**
+ * Server-side authentication helpers
+ *
+ * The uid of the caller is ALWAYS derived from a verified Firebase ID token,
+ * never from a request body or form field.
+ */
+
+export interface AuthenticatedUser {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean; // Whether the provider confirmed the user owns `email`
+  isAdmin: boolean; // Set with the `admin` custom claim
+}
+
+/**
+ * Thrown when a request has no valid Firebase ID token.
+ * Carries the HTTP status the route should respond with.
+ */
+export class AuthError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Verifies a Firebase ID token and returns the authenticated user.
+ * Use this from server actions, where the client passes the token explicitly.
+ * @throws AuthError if the token is missing, expired or revoked
+ */
+export async function verifyIdToken(idToken: string | null | undefined): Promise<AuthenticatedUser> {
+  if (!idToken) {
+    throw new AuthError('Authentication required.');
+  }
+
+  try {
+    const decoded = await getAuth().verifyIdToken(idToken, true);
+    return {
+      uid: decoded.uid,
+      email: decoded.email ?? null,
+      emailVerified: decoded.email_verified === true,
+      isAdmin: decoded.admin === true,
+    };
+  } catch (error: any) {
+    console.error('❌ ID token verification failed:', error.code || error.message);
+    throw new AuthError('Invalid or expired authentication token.');
+  }
+}
+
+/**
+ * Verifies an ID token and requires the `admin` custom claim.
+ * @throws AuthError (403) if the caller is signed in but not an admin
+ */
+export async function verifyAdminIdToken(idToken: string | null | undefined): Promise<AuthenticatedUser> {
+  const user = await verifyIdToken(idToken);
+  if (!user.isAdmin) {
+    throw new AuthError('Admin access required.', 403);
+  }
+  return user;
+}
+
+/**
+ * Verifies the `Authorization: Bearer <idToken>` header of an API request.
+ * @throws AuthError if the header is missing or the token is invalid
+ */
+export async function requireUser(request: NextRequest): Promise<AuthenticatedUser> {
+  const header = request.headers.get('authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    throw new AuthError('Missing or malformed Authorization header.');
+  }
+
+  return verifyIdToken(match[1].trim());
+}
+
+/**
+ * Builds the JSON error response for a failed authentication.
+ */
+export function authErrorResponse(error: AuthError) {
+  return NextResponse.json(
+    { success: false, message: error.message },
+    { status: error.status }
+  );
+}
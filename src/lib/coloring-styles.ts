@@ -0,0 +1,87 @@
+/**
+ * Style presets for coloring pages. Shared by the style picker and the server.
+ * A preset's instructions are added to the user's prompt and its parameters are passed
+ * to the image provider, so pages in one style look alike whatever was asked for.
+ */
+
+export const COLORING_STYLES = ['simple_outline', 'kawaii', 'cartoon', 'comic', 'realistic', 'mandala', 'zentangle'] as const;
+
+export type ColoringStyle = (typeof COLORING_STYLES)[number];
+
+export const DEFAULT_STYLE: ColoringStyle = 'simple_outline';
+
+export interface StylePreset {
+  id: ColoringStyle;
+  name: string;
+  description: string; // Shown in the picker
+  prompt: string; // Instructions added to the user's prompt
+  lineWeight: 'fine' | 'medium' | 'bold';
+  detail: 'low' | 'medium' | 'high';
+  temperature: number; // Lower keeps the model closer to the instructions
+}
+
+export const STYLE_PRESETS: Record<ColoringStyle, StylePreset> = {
+  simple_outline: {
+    id: 'simple_outline',
+    name: 'Simple Outline',
+    description: 'Clean outlines with plenty of space to color',
+    prompt: 'Simple clean line drawing with a clear subject and an uncluttered background.',
+    lineWeight: 'bold',
+    detail: 'low',
+    temperature: 0.4,
+  },
+  kawaii: {
+    id: 'kawaii',
+    name: 'Kawaii',
+    description: 'Cute, rounded characters with big eyes',
+    prompt: 'Kawaii style: cute chibi proportions, rounded shapes, big sparkly eyes and happy expressions.',
+    lineWeight: 'bold',
+    detail: 'low',
+    temperature: 0.7,
+  },
+  cartoon: {
+    id: 'cartoon',
+    name: 'Cartoon',
+    description: 'Playful, exaggerated characters',
+    prompt: 'Classic cartoon style with playful, exaggerated shapes and expressive characters.',
+    lineWeight: 'medium',
+    detail: 'medium',
+    temperature: 0.7,
+  },
+  comic: {
+    id: 'comic',
+    name: 'Comic',
+    description: 'Dynamic comic-book inking',
+    prompt: 'Comic book inking style with dynamic poses, confident strokes and a dramatic composition.',
+    lineWeight: 'medium',
+    detail: 'medium',
+    temperature: 0.8,
+  },
+  realistic: {
+    id: 'realistic',
+    name: 'Realistic',
+    description: 'True-to-life proportions and detail',
+    prompt: 'Realistic line art with accurate proportions and fine contour detail, like a detailed pen illustration.',
+    lineWeight: 'fine',
+    detail: 'high',
+    temperature: 0.5,
+  },
+  mandala: {
+    id: 'mandala',
+    name: 'Mandala',
+    description: 'Symmetrical circular patterns',
+    prompt: 'Mandala style: the subject woven into a radially symmetrical circular design of repeating ornamental patterns.',
+    lineWeight: 'fine',
+    detail: 'high',
+    temperature: 0.6,
+  },
+  zentangle: {
+    id: 'zentangle',
+    name: 'Zentangle',
+    description: 'Shapes filled with intricate patterns',
+    prompt: 'Zentangle style: the subject outlined and divided into sections, each filled with a different intricate repeating pattern.',
+    lineWeight: 'fine',
+    detail: 'high',
+    temperature: 0.6,
+  },
+};
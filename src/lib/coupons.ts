@@ -0,0 +1,175 @@
+// lib/coupons.ts
+import type { Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { type Product, type ProductId } from '@/lib/plans';
+import type { ProductPrice } from '@/lib/pricing';
+
+/**
+ * Discount coupons
+ *
+ * Coupons live at `coupons/{CODE}` (upper-case code as the document ID) and are created
+ * by an admin in the Firebase console. They are checked when an order is created, which
+ * fixes the discounted amount on the order, and REDEEMED inside the transaction that
+ * marks the payment as paid, so a redemption is only ever counted for a paid order.
+ * Each redemption is recorded at `coupons/{CODE}/redemptions/{orderId}`.
+ *
+ * Limits are checked when the order is created. An order that was already paid is never
+ * rejected because the coupon ran out in the meantime, but a free order (nothing was
+ * charged) checks them again when it is redeemed, so concurrent free orders can't go
+ * over `maxRedemptions` or `perUserLimit`.
+ */
+
+export type CouponType = 'percent_off' | 'flat_off' | 'free_pro' | 'extra_credits';
+
+export interface Coupon {
+  code: string;
+  type: CouponType;
+  /** Percent for `percent_off`, paise for `flat_off` (INR orders only), credits for `extra_credits`; unused for `free_pro` */
+  value: number;
+  /** Products the coupon can be used on; every one-off product if omitted */
+  appliesTo?: ProductId[];
+  active: boolean;
+  expiresAt: Timestamp | null;
+  maxRedemptions: number | null;
+  perUserLimit: number;
+  redemptionCount: number;
+}
+
+/**
+ * What a coupon does to one order. Stored on the payment as `coupon`.
+ */
+export interface CouponApplication {
+  code: string;
+  type: CouponType;
+  discount: number; // Taken off the list price, in the order's currency (before any tax added on top)
+  bonusCredits: number;
+}
+
+/**
+ * Thrown when a coupon cannot be used. The message is safe to show to the customer.
+ */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CouponError';
+  }
+}
+
+// Razorpay rejects orders below ₹1; anything cheaper is either free or rounded up
+const MIN_ORDER_AMOUNT = 100;
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function couponRef(code: string) {
+  return getDb().collection('coupons').doc(normalizeCouponCode(code));
+}
+
+/**
+ * The amount to charge after a coupon's discount.
+ */
+export function discountedAmount(listAmount: number, discount: number): number {
+  const amount = Math.max(listAmount - discount, 0);
+  return amount === 0 ? 0 : Math.max(amount, MIN_ORDER_AMOUNT);
+}
+
+function computeApplication(coupon: Coupon, product: Product, price: ProductPrice): CouponApplication {
+  const application = { code: coupon.code, type: coupon.type, discount: 0, bonusCredits: 0 };
+
+  switch (coupon.type) {
+    case 'percent_off':
+      return { ...application, discount: Math.round((price.listPrice * Math.min(coupon.value, 100)) / 100) };
+    case 'flat_off':
+      if (price.currency !== 'INR') {
+        throw new CouponError('This coupon can only be used for payments in INR.');
+      }
+      return { ...application, discount: Math.min(coupon.value, price.listPrice) };
+    case 'free_pro':
+      if (product.id !== 'pro_lifetime') {
+        throw new CouponError('This coupon can only be used for Pro Lifetime.');
+      }
+      return { ...application, discount: price.listPrice };
+    case 'extra_credits':
+      return { ...application, bonusCredits: coupon.value };
+  }
+}
+
+function assertWithinLimits(coupon: Coupon, userRedemptions: number) {
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    throw new CouponError('This coupon has been fully redeemed.');
+  }
+  if (userRedemptions >= (coupon.perUserLimit ?? 1)) {
+    throw new CouponError('You have already used this coupon.');
+  }
+}
+
+function assertRedeemable(coupon: Coupon | undefined, userRedemptions: number, product: Product): asserts coupon is Coupon {
+  if (!coupon || !coupon.active) {
+    throw new CouponError('This coupon code is not valid.');
+  }
+  if (coupon.expiresAt && coupon.expiresAt.toMillis() <= Date.now()) {
+    throw new CouponError('This coupon has expired.');
+  }
+  assertWithinLimits(coupon, userRedemptions);
+  if (coupon.appliesTo && !coupon.appliesTo.includes(product.id)) {
+    throw new CouponError(`This coupon cannot be used for ${product.name}.`);
+  }
+}
+
+/**
+ * Checks that the user may use a coupon on a product at the price they are charged,
+ * and works out its effect.
+ * @throws CouponError if the coupon is unknown, inactive, expired or used up
+ */
+export async function validateCoupon(code: string, userId: string, product: Product, price: ProductPrice): Promise<CouponApplication> {
+  const ref = couponRef(code);
+  const [snap, redemptions] = await Promise.all([
+    ref.get(),
+    ref.collection('redemptions').where('userId', '==', userId).count().get(),
+  ]);
+
+  const coupon = snap.exists ? ({ ...snap.data(), code: snap.id } as Coupon) : undefined;
+  assertRedeemable(coupon, redemptions.data().count, product);
+  return computeApplication(coupon, product, price);
+}
+
+/**
+ * Records a redemption inside the caller's payment transaction, in two phases: this
+ * does the reads and returns the writes, so the caller can finish all of its own reads
+ * (Firestore rejects a read after a write) before applying them. Idempotent per order.
+ * With `enforceLimits` (free orders) the coupon's limits are checked again in the transaction.
+ * @throws CouponError if `enforceLimits` is set and the coupon has run out
+ */
+export async function prepareCouponRedemption(transaction: Transaction, application: CouponApplication, userId: string, orderId: string, { enforceLimits = false } = {}): Promise<() => void> {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const ref = couponRef(application.code);
+  const redemptionRef = ref.collection('redemptions').doc(orderId);
+  const redemption = await transaction.get(redemptionRef);
+
+  if (enforceLimits && !redemption.exists) {
+    const couponSnap = await transaction.get(ref);
+    const userRedemptions = await transaction.get(ref.collection('redemptions').where('userId', '==', userId));
+    if (!couponSnap.exists) {
+      throw new CouponError('This coupon code is not valid.');
+    }
+    assertWithinLimits({ ...couponSnap.data(), code: couponSnap.id } as Coupon, userRedemptions.size);
+  }
+
+  return () => {
+    if (redemption.exists) {
+      return;
+    }
+
+    transaction.create(redemptionRef, {
+      userId,
+      orderId,
+      discount: application.discount,
+      bonusCredits: application.bonusCredits,
+      redeemedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.update(ref, {
+      redemptionCount: FieldValue.increment(1),
+    });
+  };
+}
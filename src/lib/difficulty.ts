@@ -0,0 +1,58 @@
+/**
+ * Difficulty levels, by the age of whoever will color the page. Shared by the pickers
+ * and the server. A level's instructions are added to the prompt; that is all this app
+ * does with it. `minRegionPx` and `lineWeightPx` are only HINTS passed along to the n8n
+ * workflow (as `postProcessing`), in pixels on a 1024px-wide page: nothing here merges
+ * regions or redraws lines, images are not checked against them, and the Gemini provider
+ * ignores them. Whether they have any effect is up to the workflow.
+ */
+
+export const DIFFICULTY_LEVELS = ['toddler', 'kids', 'teen', 'adult'] as const;
+
+export type Difficulty = (typeof DIFFICULTY_LEVELS)[number];
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'kids';
+
+export interface DifficultyLevel {
+  id: Difficulty;
+  name: string;
+  ages: string;
+  prompt: string; // Instructions added to the user's prompt
+  minRegionPx: number; // Hint for n8n: smallest area to leave for coloring
+  lineWeightPx: number; // Hint for n8n: outline width
+}
+
+export const DIFFICULTY: Record<Difficulty, DifficultyLevel> = {
+  toddler: {
+    id: 'toddler',
+    name: 'Toddler',
+    ages: '2–4',
+    prompt: 'For toddlers: a few very large, simple shapes, very thick outlines, no small details and no background.',
+    minRegionPx: 120,
+    lineWeightPx: 12,
+  },
+  kids: {
+    id: 'kids',
+    name: 'Kids',
+    ages: '5–9',
+    prompt: 'For children: clear, medium-sized shapes with thick outlines and only a simple background.',
+    minRegionPx: 60,
+    lineWeightPx: 8,
+  },
+  teen: {
+    id: 'teen',
+    name: 'Teen',
+    ages: '10–15',
+    prompt: 'For older children: a moderately detailed scene with medium outlines and some smaller areas to color.',
+    minRegionPx: 24,
+    lineWeightPx: 4,
+  },
+  adult: {
+    id: 'adult',
+    name: 'Adult',
+    ages: '16+',
+    prompt: 'For adults: an intricate, densely detailed design with fine outlines and many small areas to color.',
+    minRegionPx: 8,
+    lineWeightPx: 2,
+  },
+};
@@ -0,0 +1,134 @@
+// lib/entitlements.ts
+import { hasActivePro, isOnTrial } from '@/lib/plans';
+
+/**
+ * Entitlements
+ *
+ * What a user may do right now, worked out from their profile in one place. The server
+ * enforces it (`lib/quota.ts` reserves generations from it inside the reservation
+ * transaction) and the browser reads it through `useEntitlements`, so the header, the
+ * generate form and the API can't disagree about who has Pro or how many pages are left.
+ * No server dependencies: safe to import from client components.
+ */
+
+export const FREE_GENERATION_LIMIT = 5;
+
+/**
+ * What a user is on. `group` means a member of a family or classroom group; users paying
+ * with credits are on `free`.
+ */
+export type EntitlementPlan = 'pro' | 'trial' | 'group' | 'free';
+
+/**
+ * What pays for a user's next generation, in the order they are tried.
+ */
+export type GenerationSource = 'pro' | 'trial' | 'group' | 'free' | 'credits';
+
+export const RESOLUTIONS = ['standard', 'high'] as const;
+export type Resolution = (typeof RESOLUTIONS)[number];
+export const DEFAULT_RESOLUTION: Resolution = 'standard';
+
+export type Feature = 'unlimited_generations' | 'high_resolution';
+
+/**
+ * Why a generation was refused. The API returns it as `code` so clients can react to
+ * the reason without matching on the message.
+ */
+export type EntitlementErrorCode = 'profile_not_found' | 'limit_reached' | 'resolution_not_allowed';
+
+/**
+ * The profile fields entitlements depend on. Accepts both client and Admin SDK timestamps.
+ */
+export interface EntitlementProfile {
+  isSubscribed?: boolean;
+  currentPeriodEnd?: { toMillis(): number } | null;
+  trialEndsAt?: { toMillis(): number } | null;
+  generationCount?: number;
+  credits?: number;
+  groupId?: string | null;
+}
+
+export interface GroupPool {
+  memberIds: string[];
+  poolSize: number;
+  poolUsed: number;
+}
+
+export interface Entitlements {
+  plan: EntitlementPlan;
+  isPro: boolean; // A paid plan; false during a trial
+  trialEndsAt: number | null; // Millis; kept after the trial ends
+  freeGenerationsLeft: number;
+  credits: number;
+  groupGenerationsLeft: number | null; // Null when not in a group, or its pool wasn't read
+  generationsRemaining: number | null; // Null when unlimited
+  nextSource: GenerationSource | null; // Null when the user can't generate
+  resolutions: Resolution[];
+  features: Record<Feature, boolean>;
+}
+
+interface EntitlementOptions {
+  userId?: string;
+  // The user's group, or null if it doesn't exist. Left out, a member is assumed to have
+  // pool left; only the server reads the group (in the reservation transaction) to be sure
+  group?: GroupPool | null;
+  now?: number;
+}
+
+/**
+ * Whether a group still has generations left for one of its members.
+ */
+export function hasPoolRemaining(group: GroupPool | null | undefined, userId: string): boolean {
+  return !!group && group.memberIds.includes(userId) && group.poolUsed < group.poolSize;
+}
+
+/**
+ * Computes a user's entitlements from their profile. A missing profile gets the free plan.
+ */
+export function getEntitlements(profile: EntitlementProfile | null | undefined, { userId, group, now = Date.now() }: EntitlementOptions = {}): Entitlements {
+  // Recurring plans only count while their paid period (plus grace) lasts
+  const isPro = hasActivePro(profile, now);
+  // Once the trial ends the user falls back to the free limits on their next generation
+  const isTrial = !isPro && isOnTrial(profile, now);
+  const hasProFeatures = isPro || isTrial;
+
+  const freeGenerationsLeft = Math.max(FREE_GENERATION_LIMIT - (profile?.generationCount ?? 0), 0);
+  const credits = Math.max(profile?.credits ?? 0, 0);
+  const groupId = profile?.groupId;
+  let groupGenerationsLeft: number | null = null;
+  if (groupId && group !== undefined) {
+    groupGenerationsLeft = group && userId && hasPoolRemaining(group, userId) ? group.poolSize - group.poolUsed : 0;
+  }
+  const hasGroupPool = !!groupId && (group === undefined || !!groupGenerationsLeft);
+
+  let nextSource: GenerationSource | null;
+  if (isPro) {
+    nextSource = 'pro';
+  } else if (isTrial) {
+    nextSource = 'trial';
+  } else if (hasGroupPool) {
+    nextSource = 'group';
+  } else if (freeGenerationsLeft > 0) {
+    nextSource = 'free';
+  } else if (credits > 0) {
+    nextSource = 'credits';
+  } else {
+    nextSource = null;
+  }
+
+  return {
+    plan: isPro ? 'pro' : isTrial ? 'trial' : groupId ? 'group' : 'free',
+    isPro,
+    trialEndsAt: profile?.trialEndsAt?.toMillis() ?? null,
+    freeGenerationsLeft,
+    credits,
+    groupGenerationsLeft,
+    generationsRemaining: hasProFeatures ? null : freeGenerationsLeft + credits + (groupGenerationsLeft ?? 0),
+    nextSource,
+    resolutions: hasProFeatures ? [...RESOLUTIONS] : [DEFAULT_RESOLUTION],
+    features: {
+      unlimited_generations: hasProFeatures,
+      high_resolution: hasProFeatures,
+    },
+  };
+}
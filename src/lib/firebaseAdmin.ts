@@ -46,6 +46,7 @@ function initializeFirebaseAdmin(): void {
         // Initialize without credential parameter - Cloud Run provides it automatically
         admin.initializeApp({
           projectId: config.projectId,
+          storageBucket: config.storageBucket,
         });
 
         isFirebaseInitialized = true;
@@ -171,6 +172,16 @@ export function getAuth() {
   return admin.auth();
 }
 
+/**
+ * Returns the Cloud Storage instance
+ * Safe to call from any server context (API routes, server actions, middleware)
+ * @returns Firebase Storage instance
+ */
+export function getStorage() {
+  ensureInitialized();
+  return admin.storage();
+}
+
 /**
  * Force initialization (useful for testing or explicit pre-initialization)
  * @returns Whether initialization was successful
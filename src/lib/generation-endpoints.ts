@@ -0,0 +1,58 @@
+// lib/generation-endpoints.ts
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import type { EndpointAttemptReport } from '@/ai/providers';
+
+/**
+ * Generation endpoint stats
+ *
+ * One document per configured n8n webhook at `generationEndpoints/{name}`, counting its
+ * successes and failures, their latency, and the outcome of its last health probe, so we
+ * can see how each backend is doing. Which endpoint served a particular image is recorded
+ * on the job and the image themselves (see `lib/generation-jobs.ts`). Readable only
+ * with the Admin SDK.
+ *
+ * Writes are best effort: losing a stat must never fail a generation.
+ */
+
+export interface GenerationEndpointStats {
+  successes: number;
+  failures: number;
+  totalSuccessLatencyMs: number; // Divide by `successes` for the average
+  lastLatencyMs: number;
+  lastErrorKind?: string;
+  lastSuccessAt?: Timestamp;
+  lastFailureAt?: Timestamp;
+  healthy?: boolean; // As of the last probe
+  probedAt?: Timestamp;
+}
+
+function endpointRef(name: string) {
+  return getDb().collection('generationEndpoints').doc(name);
+}
+
+export function recordEndpointAttempt({ endpoint, ok, latencyMs, errorKind }: EndpointAttemptReport): void {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const update = ok
+    ? {
+        successes: FieldValue.increment(1),
+        totalSuccessLatencyMs: FieldValue.increment(latencyMs),
+        lastSuccessAt: FieldValue.serverTimestamp(),
+      }
+    : {
+        failures: FieldValue.increment(1),
+        lastErrorKind: errorKind ?? 'unknown',
+        lastFailureAt: FieldValue.serverTimestamp(),
+      };
+
+  endpointRef(endpoint).set({ ...update, lastLatencyMs: latencyMs }, { merge: true }).catch((error) => {
+    console.error(`Could not record an attempt on generation endpoint ${endpoint}:`, error.message);
+  });
+}
+
+export function recordEndpointProbe(endpoint: string, healthy: boolean): void {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  endpointRef(endpoint).set({ healthy, probedAt: FieldValue.serverTimestamp() }, { merge: true }).catch((error) => {
+    console.error(`Could not record a probe of generation endpoint ${endpoint}:`, error.message);
+  });
+}
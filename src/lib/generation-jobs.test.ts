@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createGenerationJob, failStaleGenerationJobs, runGenerationJob, type GenerationOptions } from '@/lib/generation-jobs';
+import { generateColoringPageFromPrompt } from '@/ai/flows/generate-coloring-page-from-prompt';
+import { GENERATION_JOB_TIMEOUT_MS } from '@/app/types';
+import { listFiles, readDoc, seedDoc, Timestamp } from '@/test/fake-firebase-admin';
+import { seedUser } from '@/test/payments';
+
+vi.mock('@/ai/flows/generate-coloring-page-from-prompt', () => ({
+  generateColoringPageFromPrompt: vi.fn(),
+}));
+
+const OPTIONS: GenerationOptions = { resolution: 'standard', style: 'simple_outline', difficulty: 'kids', pageFormat: 'square' };
+
+/**
+ * Makes a job look as if nothing has touched it for `ageMs`, as when its instance died.
+ */
+function age(userId: string, jobId: string, ageMs: number) {
+  const path = `users/${userId}/generationJobs/${jobId}`;
+  seedDoc(path, { ...readDoc(path), updatedAt: Timestamp.fromMillis(Date.now() - ageMs) });
+}
+
+describe('failStaleGenerationJobs', () => {
+  it('fails a job left running past the timeout and gives its generation back', async () => {
+    seedUser('alice');
+    const jobId = await createGenerationJob('alice', 'a friendly dragon', OPTIONS);
+    expect(readDoc('users/alice')?.generationCount).toBe(1);
+    age('alice', jobId, GENERATION_JOB_TIMEOUT_MS + 1000);
+
+    const failed = await failStaleGenerationJobs('alice');
+
+    expect(failed).toBe(1);
+    expect(readDoc(`users/alice/generationJobs/${jobId}`)).toMatchObject({ status: 'failed', errorCode: 'timeout', quota: { status: 'released' } });
+    expect(readDoc('users/alice')?.generationCount).toBe(0);
+  });
+
+  it('leaves jobs that are still within the timeout alone', async () => {
+    seedUser('alice');
+    const jobId = await createGenerationJob('alice', 'a friendly dragon', OPTIONS);
+    age('alice', jobId, GENERATION_JOB_TIMEOUT_MS - 60 * 1000);
+
+    const failed = await failStaleGenerationJobs('alice');
+
+    expect(failed).toBe(0);
+    expect(readDoc(`users/alice/generationJobs/${jobId}`)).toMatchObject({ status: 'queued', quota: { status: 'reserved' } });
+    expect(readDoc('users/alice')?.generationCount).toBe(1);
+  });
+
+  it('does not run a job that was already failed as stale', async () => {
+    seedUser('alice');
+    const jobId = await createGenerationJob('alice', 'a friendly dragon', OPTIONS);
+    age('alice', jobId, GENERATION_JOB_TIMEOUT_MS + 1000);
+    await failStaleGenerationJobs('alice');
+
+    await runGenerationJob('alice', jobId);
+
+    expect(generateColoringPageFromPrompt).not.toHaveBeenCalled();
+    expect(readDoc(`users/alice/generationJobs/${jobId}`)?.status).toBe('failed');
+  });
+});
+
+describe('runGenerationJob', () => {
+  it('uploads an inline image to Storage and saves only its URL', async () => {
+    seedUser('alice');
+    vi.mocked(generateColoringPageFromPrompt).mockResolvedValueOnce({
+      imageUrl: `data:image/png;base64,${Buffer.from('png bytes').toString('base64')}`,
+      provider: 'gemini',
+    });
+    const jobId = await createGenerationJob('alice', 'a friendly dragon', OPTIONS);
+
+    await runGenerationJob('alice', jobId);
+
+    const job = readDoc(`users/alice/generationJobs/${jobId}`);
+    expect(job?.status).toBe('succeeded');
+    expect(job?.imageUrl).toMatch(/^https:\/\/firebasestorage\.googleapis\.com\/v0\/b\/test-bucket\.appspot\.com\/o\/generatedImages%2Falice%2F.+\.png\?alt=media&token=/);
+    expect(readDoc(`users/alice/generatedImages/${job?.imageId}`)?.imageUrl).toBe(job?.imageUrl);
+    const file = listFiles().get(`test-bucket.appspot.com/generatedImages/alice/${job?.imageId}.png`);
+    expect(file?.contents.toString()).toBe('png bytes');
+    expect(file?.options.contentType).toBe('image/png');
+  });
+});
@@ -0,0 +1,223 @@
+// lib/generation-jobs.ts
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { generateColoringPageFromPrompt } from '@/ai/flows/generate-coloring-page-from-prompt';
+import { ImageProviderError, type ImageProviderErrorKind } from '@/ai/providers';
+import { commitGeneration, releaseGeneration, reserveGeneration, type QuotaReservation } from '@/lib/quota';
+import { rewardReferralOnGeneration } from '@/lib/referrals';
+import { storeGeneratedImage } from '@/lib/image-storage';
+import { DEFAULT_RESOLUTION, type Resolution } from '@/lib/entitlements';
+import { DEFAULT_STYLE, type ColoringStyle } from '@/lib/coloring-styles';
+import { DEFAULT_DIFFICULTY, type Difficulty } from '@/lib/difficulty';
+import { DEFAULT_PAGE_FORMAT, type PageFormat } from '@/lib/page-formats';
+import { GENERATION_JOB_TIMEOUT_MS, type GenerationBackend, type GenerationJobErrorCode } from '@/app/types';
+
+/**
+ * Generation jobs live at `users/{userId}/generationJobs/{jobId}` and move through
+ * queued → running → succeeded | failed. The API route creates the job and returns
+ * immediately; the work itself runs in the background via runGenerationJob().
+ *
+ * If the instance running a job dies, nothing else will finish it, so a job that has
+ * not moved for GENERATION_JOB_TIMEOUT_MS is treated as lost: failStaleGenerationJobs()
+ * releases its reservation and fails it. The user's jobs are swept before each new
+ * generation, and whenever the client sees one of them overrun the timeout.
+ */
+
+const ERROR_CODES: Record<ImageProviderErrorKind, GenerationJobErrorCode> = {
+  timeout: 'timeout',
+  rate_limited: 'rate_limited',
+  server_error: 'service_unavailable',
+  circuit_open: 'service_unavailable',
+  malformed_response: 'generation_failed',
+  rejected: 'generation_failed',
+};
+
+/**
+ * How the user asked for the page to be drawn. Stored on the job, and on the image it produces.
+ */
+export interface GenerationOptions {
+  resolution: Resolution;
+  style: ColoringStyle;
+  difficulty: Difficulty;
+  pageFormat: PageFormat;
+}
+
+function jobsCollection(userId: string) {
+  return getDb().collection(`users/${userId}/generationJobs`);
+}
+
+/**
+ * Reserves quota and creates a queued job document in one transaction.
+ * @returns The new job ID
+ * @throws QuotaError if the user cannot generate another image
+ */
+export async function createGenerationJob(userId: string, prompt: string, options: GenerationOptions): Promise<string> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const jobRef = jobsCollection(userId).doc();
+
+  await db.runTransaction(async (transaction) => {
+    const quota = await reserveGeneration(transaction, userId, jobRef.id, options.resolution);
+    transaction.create(jobRef, {
+      prompt,
+      ...options,
+      userId,
+      status: 'queued',
+      quota,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return jobRef.id;
+}
+
+/**
+ * Runs a queued job to completion, recording the outcome on the job document.
+ * Never throws: every failure releases the quota reservation and is written
+ * to the job as `failed` with an error code.
+ */
+export async function runGenerationJob(userId: string, jobId: string): Promise<void> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const jobRef = jobsCollection(userId).doc(jobId);
+
+  const markFailed = async (errorCode: GenerationJobErrorCode, errorMessage: string) => {
+    await releaseGeneration(userId, jobId);
+    await jobRef.update({
+      status: 'failed',
+      errorCode,
+      errorMessage,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  };
+
+  try {
+    const jobSnap = await jobRef.get();
+    const prompt = jobSnap.data()?.prompt as string | undefined;
+    // Jobs queued before an option existed don't have it
+    const options: GenerationOptions = {
+      resolution: jobSnap.data()?.resolution ?? DEFAULT_RESOLUTION,
+      style: jobSnap.data()?.style ?? DEFAULT_STYLE,
+      difficulty: jobSnap.data()?.difficulty ?? DEFAULT_DIFFICULTY,
+      pageFormat: jobSnap.data()?.pageFormat ?? DEFAULT_PAGE_FORMAT,
+    };
+    if (!jobSnap.exists || !prompt) {
+      console.error(`Generation job ${jobId} for user ${userId} not found.`);
+      return;
+    }
+    if (jobSnap.data()?.status !== 'queued') {
+      console.warn(`⚠️ Generation job ${jobId} is already ${jobSnap.data()?.status}, not running it.`);
+      return;
+    }
+
+    await jobRef.update({
+      status: 'running',
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    let imageUrl: string;
+    let backend: GenerationBackend;
+    const startedAt = Date.now();
+    try {
+      const output = await generateColoringPageFromPrompt({ prompt, userId, ...options });
+      imageUrl = output.imageUrl;
+      backend = {
+        provider: output.provider,
+        ...(output.endpoint && { endpoint: output.endpoint }),
+        latencyMs: Date.now() - startedAt,
+      };
+    } catch (error: any) {
+      console.error(`Generation job ${jobId} failed in provider:`, error.message);
+      if (error instanceof ImageProviderError) {
+        await markFailed(ERROR_CODES[error.kind], error.userMessage);
+      } else {
+        await markFailed('generation_failed', error.message || 'Failed to generate coloring page.');
+      }
+      return;
+    }
+
+    // Inline images go to Storage first; only their URL fits on the documents
+    const imageRef = db.collection(`users/${userId}/generatedImages`).doc();
+    imageUrl = await storeGeneratedImage(userId, imageRef.id, imageUrl);
+
+    // Save the image and consume the reservation together (a first generation also completes a referral)
+    const saved = await db.runTransaction(async (transaction) => {
+      const currentJob = await transaction.get(jobRef);
+      const reservation = currentJob.data()?.quota as QuotaReservation;
+      if (reservation.status !== 'reserved') {
+        // Failed as stale while the provider was still working; the user already has their generation back
+        return false;
+      }
+      await rewardReferralOnGeneration(transaction, userId);
+
+      transaction.create(imageRef, {
+        imageUrl,
+        prompt,
+        ...options,
+        backend,
+        createdAt: FieldValue.serverTimestamp(),
+        userId,
+      });
+      transaction.update(jobRef, {
+        status: 'succeeded',
+        imageUrl,
+        imageId: imageRef.id,
+        backend,
+        quota: commitGeneration(transaction, userId, jobId, reservation),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    if (!saved) {
+      console.warn(`⚠️ Generation job ${jobId} finished after it was failed as stale; discarding its image.`);
+    }
+  } catch (error: any) {
+    console.error(`Generation job ${jobId} failed:`, error);
+    await markFailed('internal', 'Something went wrong. Please try again.').catch((updateError) => {
+      console.error(`Could not record failure for generation job ${jobId}:`, updateError);
+    });
+  }
+}
+
+/**
+ * Fails the user's queued or running jobs that have not moved for GENERATION_JOB_TIMEOUT_MS,
+ * releasing their quota reservations.
+ * Safe to run at any time: releasing is idempotent, and a job is only failed while it is still stale.
+ * @returns How many jobs were failed
+ */
+export async function failStaleGenerationJobs(userId: string): Promise<number> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const cutoff = Date.now() - GENERATION_JOB_TIMEOUT_MS;
+
+  const isStale = (data: Record<string, any> | undefined) =>
+    (data?.status === 'queued' || data?.status === 'running') && (data.updatedAt?.toMillis() ?? 0) < cutoff;
+
+  const active = await jobsCollection(userId).where('status', 'in', ['queued', 'running']).get();
+  let failed = 0;
+  for (const jobSnap of active.docs) {
+    if (!isStale(jobSnap.data())) {
+      continue;
+    }
+    // Released first, so a crash in between leaves a stale job for the next sweep rather than a lost reservation
+    await releaseGeneration(userId, jobSnap.id);
+    const expired = await db.runTransaction(async (transaction) => {
+      const currentJob = await transaction.get(jobSnap.ref);
+      if (!isStale(currentJob.data())) {
+        return false;
+      }
+      transaction.update(jobSnap.ref, {
+        status: 'failed',
+        errorCode: 'timeout',
+        errorMessage: 'This generation took too long and was stopped. Your generation was not used.',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+    if (expired) {
+      console.warn(`⚠️ Generation job ${jobSnap.id} for user ${userId} went stale and was failed.`);
+      failed++;
+    }
+  }
+  return failed;
+}
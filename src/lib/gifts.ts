@@ -0,0 +1,130 @@
+// lib/gifts.ts
+import crypto from 'crypto';
+import type { Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { getProduct, type ProductId } from '@/lib/plans';
+
+/**
+ * Gifts
+ *
+ * A gift is a one-off product (Pro Lifetime or a credit pack) bought for someone else.
+ * The gifter pays an ordinary order whose ledger entry carries `gift`, and a gift code is
+ * reserved at `gifts/{CODE}`. When the order is paid, nothing is applied to the gifter;
+ * the gift becomes `issued` instead, and whoever signs in and redeems the code at
+ * /redeem receives it. The recipient is then recorded on both the gift and the payment.
+ *
+ *   pending → issued → redeemed
+ *               ↘          ↘
+ *                 revoked (the order was fully refunded)
+ */
+
+export type GiftStatus = 'pending' | 'issued' | 'redeemed' | 'revoked';
+
+export interface GiftRecord {
+  code: string;
+  orderId: string;
+  productId: ProductId;
+  gifterId: string;
+  gifterName: string | null;
+  recipientEmail: string;
+  message: string | null;
+  status: GiftStatus;
+  recipientId?: string;
+  createdAt: Timestamp;
+  issuedAt?: Timestamp;
+  redeemedAt?: Timestamp;
+}
+
+/**
+ * The gift side of a payment. Stored on the payment as `gift`.
+ */
+export interface PaymentGift {
+  code: string;
+  recipientEmail: string;
+  recipientId?: string; // Set once redeemed
+}
+
+/**
+ * What anyone holding the code may see about a gift.
+ */
+export interface GiftPreview {
+  code: string;
+  productName: string;
+  gifterName: string | null;
+  recipientEmail: string;
+  message: string | null;
+  status: GiftStatus;
+}
+
+/**
+ * Thrown when a gift cannot be created or redeemed. The message is safe to show to the customer.
+ */
+export class GiftError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GiftError';
+    this.status = status;
+  }
+}
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function normalizeGiftCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * A new random code like `GIFT-7KQX-M3PA`.
+ */
+export function generateGiftCode(): string {
+  const chars = Array.from(crypto.randomBytes(8), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]);
+  return `GIFT-${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+export function giftRef(code: string) {
+  return getDb().collection('gifts').doc(normalizeGiftCode(code));
+}
+
+/**
+ * Reserves a gift code for an order that has just been created. The gift only
+ * becomes redeemable once the order is paid.
+ */
+export async function createGift(gift: Pick<GiftRecord, 'code' | 'orderId' | 'productId' | 'gifterId' | 'gifterName' | 'recipientEmail' | 'message'>): Promise<void> {
+  await giftRef(gift.code).create({
+    ...gift,
+    status: 'pending',
+    createdAt: getFirebaseAdmin().firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Makes a paid order's gift redeemable, inside the caller's transaction.
+ */
+export function issueGift(transaction: Transaction, code: string) {
+  transaction.update(giftRef(code), {
+    status: 'issued',
+    issuedAt: getFirebaseAdmin().firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Reads a gift, or null if there is no gift with that code.
+ */
+export async function getGift(code: string): Promise<GiftRecord | null> {
+  const snap = await giftRef(code).get();
+  return snap.exists ? (snap.data() as GiftRecord) : null;
+}
+
+export function toGiftPreview(gift: GiftRecord): GiftPreview {
+  return {
+    code: gift.code,
+    productName: getProduct(gift.productId)?.name ?? 'A gift',
+    gifterName: gift.gifterName,
+    recipientEmail: gift.recipientEmail,
+    message: gift.message,
+    status: gift.status,
+  };
+}
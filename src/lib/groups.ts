@@ -0,0 +1,284 @@
+// lib/groups.ts
+import type { DocumentSnapshot, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications';
+import type { GroupPlan, GroupType } from '@/lib/plans';
+
+/**
+ * Family and classroom groups
+ *
+ * Buying a group plan creates `groups/{ownerId}` (one group per owner) holding a pool of
+ * generations; buying again tops it up. The owner invites members by email with
+ * `groupInvites/{groupId}_{email}`, and an invitee signed in with that email accepts it.
+ * Members (the owner included) are listed in `memberIds` and have a
+ * `groups/{groupId}/members/{userId}` document carrying their usage, and their profile's
+ * `groupId` points at the group. Generations come out of the pool before a member's own
+ * quota (see `lib/quota.ts`).
+ */
+
+export interface GroupRecord {
+  ownerId: string;
+  name: string;
+  type: GroupType;
+  seats: number;
+  memberIds: string[];
+  poolSize: number;
+  poolUsed: number;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface GroupMember {
+  userId: string;
+  email: string | null;
+  displayName: string | null;
+  role: 'owner' | 'member';
+  generationsUsed: number;
+  joinedAt: Timestamp;
+}
+
+export interface GroupInvite {
+  groupId: string;
+  groupName: string;
+  email: string;
+  invitedBy: string;
+  createdAt: Timestamp;
+}
+
+/**
+ * Thrown when a group can't be joined or changed. The message is safe to show to the customer.
+ */
+export class GroupError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GroupError';
+    this.status = status;
+  }
+}
+
+export function groupRef(groupId: string) {
+  return getDb().collection('groups').doc(groupId);
+}
+
+export function groupMemberRef(groupId: string, userId: string) {
+  return getDb().collection(`groups/${groupId}/members`).doc(userId);
+}
+
+function inviteRef(groupId: string, email: string) {
+  return getDb().collection('groupInvites').doc(`${groupId}_${email}`);
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Creates the owner's group for a paid group plan, or tops up its pool and seats,
+ * inside the caller's transaction. `groupSnap` must have been read in that transaction.
+ */
+export function applyGroupPlan(
+  transaction: Transaction,
+  groupSnap: DocumentSnapshot,
+  owner: { userId: string; email: string | null; displayName: string | null },
+  plan: GroupPlan
+) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+
+  if (groupSnap.exists) {
+    const group = groupSnap.data() as GroupRecord;
+    transaction.update(groupSnap.ref, {
+      poolSize: FieldValue.increment(plan.generations),
+      seats: Math.max(group.seats, plan.seats),
+      // A classroom plan turns a family group into a classroom, never the other way round
+      ...(plan.type === 'classroom' && { type: 'classroom' }),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return;
+  }
+
+  transaction.create(groupSnap.ref, {
+    ownerId: owner.userId,
+    name: plan.type === 'classroom' ? 'My Classroom' : 'My Family',
+    type: plan.type,
+    seats: plan.seats,
+    memberIds: [owner.userId],
+    poolSize: plan.generations,
+    poolUsed: 0,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  transaction.set(groupMemberRef(owner.userId, owner.userId), {
+    userId: owner.userId,
+    email: owner.email,
+    displayName: owner.displayName,
+    role: 'owner',
+    generationsUsed: 0,
+    joinedAt: FieldValue.serverTimestamp(),
+  });
+  transaction.update(getDb().collection('users').doc(owner.userId), { groupId: owner.userId });
+}
+
+/**
+ * Reads the group the user owns, or throws.
+ */
+async function getOwnedGroup(transaction: Transaction, ownerId: string): Promise<{ snap: DocumentSnapshot; group: GroupRecord }> {
+  const snap = await transaction.get(groupRef(ownerId));
+  if (!snap.exists) {
+    throw new GroupError('You do not have a family or classroom plan.', 404);
+  }
+  return { snap, group: snap.data() as GroupRecord };
+}
+
+/**
+ * Invites someone to the owner's group by email. If they already have an account,
+ * they are also notified in the app.
+ */
+export async function inviteGroupMember(ownerId: string, email: string): Promise<void> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const inviteeEmail = normalizeEmail(email);
+  const invitee = await getFirebaseAdmin().auth().getUserByEmail(inviteeEmail).catch(() => null);
+
+  await db.runTransaction(async (transaction) => {
+    const { group } = await getOwnedGroup(transaction, ownerId);
+    const pendingSnap = await transaction.get(db.collection('groupInvites').where('groupId', '==', ownerId));
+    const memberSnap = await transaction.get(db.collection(`groups/${ownerId}/members`).where('email', '==', inviteeEmail).limit(1));
+
+    if (!memberSnap.empty) {
+      throw new GroupError('This person is already in your group.', 409);
+    }
+    const alreadyInvited = pendingSnap.docs.some((doc) => doc.data().email === inviteeEmail);
+    if (!alreadyInvited && group.memberIds.length + pendingSnap.size >= group.seats) {
+      throw new GroupError(`Your plan has ${group.seats} seats, and they are all taken or invited.`, 409);
+    }
+
+    transaction.set(inviteRef(ownerId, inviteeEmail), {
+      groupId: ownerId,
+      groupName: group.name,
+      email: inviteeEmail,
+      invitedBy: ownerId,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    if (invitee && !alreadyInvited) {
+      notifyUser(transaction, invitee.uid, {
+        type: 'group',
+        title: `You're invited to ${group.name}`,
+        body: 'Open Family & Classroom from your account menu to join.',
+      });
+    }
+  });
+}
+
+/**
+ * Withdraws an invitation that has not been accepted yet.
+ */
+export async function cancelGroupInvite(ownerId: string, email: string): Promise<void> {
+  await inviteRef(ownerId, normalizeEmail(email)).delete();
+}
+
+/**
+ * Adds the user to a group they were invited to. The invitation must be for the
+ * email address the user is signed in with, and that address must be verified:
+ * anyone can sign up with an address they don't own.
+ */
+export async function acceptGroupInvite(user: { userId: string; email: string | null; emailVerified: boolean; displayName: string | null }, groupId: string): Promise<GroupRecord> {
+  if (!user.email) {
+    throw new GroupError('Your account has no email address to match an invitation.', 403);
+  }
+  if (!user.emailVerified) {
+    throw new GroupError('Verify your email address to accept this invitation.', 403);
+  }
+
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const userRef = db.collection('users').doc(user.userId);
+
+  return db.runTransaction(async (transaction) => {
+    const inviteSnap = await transaction.get(inviteRef(groupId, normalizeEmail(user.email!)));
+    if (!inviteSnap.exists) {
+      throw new GroupError('This invitation is no longer valid.', 404);
+    }
+    const groupSnap = await transaction.get(groupRef(groupId));
+    const userDoc = await transaction.get(userRef);
+    if (!groupSnap.exists || !userDoc.exists) {
+      throw new GroupError('This invitation is no longer valid.', 404);
+    }
+
+    const group = groupSnap.data() as GroupRecord;
+    const currentGroupId = userDoc.data()?.groupId as string | undefined;
+    if (currentGroupId && currentGroupId !== groupId) {
+      throw new GroupError('Leave your current group before joining another one.', 409);
+    }
+    if (group.memberIds.length >= group.seats && !group.memberIds.includes(user.userId)) {
+      throw new GroupError('This group is full.', 409);
+    }
+
+    transaction.update(groupSnap.ref, {
+      memberIds: FieldValue.arrayUnion(user.userId),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.set(groupMemberRef(groupId, user.userId), {
+      userId: user.userId,
+      email: normalizeEmail(user.email!),
+      displayName: user.displayName,
+      role: 'member',
+      generationsUsed: 0,
+      joinedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.update(userRef, { groupId });
+    transaction.delete(inviteSnap.ref);
+    notifyUser(transaction, group.ownerId, {
+      type: 'group',
+      title: 'Invitation accepted',
+      body: `${user.displayName || user.email} joined ${group.name}.`,
+    });
+
+    return { ...group, memberIds: [...group.memberIds, user.userId] };
+  });
+}
+
+/**
+ * Removes a member from a group, by its owner or by the member themselves. Their
+ * past usage stays counted against the pool. The owner can't leave their own group.
+ */
+export async function removeGroupMember(groupId: string, memberId: string, actorId: string): Promise<void> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+
+  await db.runTransaction(async (transaction) => {
+    const groupSnap = await transaction.get(groupRef(groupId));
+    const group = groupSnap.data() as GroupRecord | undefined;
+
+    if (!group || !group.memberIds.includes(memberId)) {
+      throw new GroupError('This person is not in the group.', 404);
+    }
+    if (actorId !== group.ownerId && actorId !== memberId) {
+      throw new GroupError('Only the group owner can remove members.', 403);
+    }
+    if (memberId === group.ownerId) {
+      throw new GroupError('The owner cannot leave their own group.', 400);
+    }
+
+    transaction.update(groupSnap.ref, {
+      memberIds: FieldValue.arrayRemove(memberId),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.delete(groupMemberRef(groupId, memberId));
+    transaction.update(db.collection('users').doc(memberId), { groupId: FieldValue.delete() });
+  });
+}
+
+/**
+ * Renames the owner's group.
+ */
+export async function renameGroup(ownerId: string, name: string): Promise<void> {
+  await getDb().runTransaction(async (transaction) => {
+    const { snap } = await getOwnedGroup(transaction, ownerId);
+    transaction.update(snap.ref, {
+      name,
+      updatedAt: getFirebaseAdmin().firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
@@ -0,0 +1,47 @@
+// lib/image-storage.ts
+import crypto from 'crypto';
+import { getStorage } from '@/lib/firebaseAdmin';
+
+/**
+ * Generated images in Cloud Storage
+ *
+ * Providers that return the image itself (Gemini answers with a `data:` URI) would
+ * otherwise put megabytes on the job and image documents, past Firestore's 1 MiB
+ * document limit. Such images are uploaded to `generatedImages/{userId}/{imageId}` in
+ * the default bucket (or FIREBASE_STORAGE_BUCKET), and only their download URL is stored.
+ * Providers that already return a URL (n8n) are left as they are.
+ */
+
+const DATA_URI_PATTERN = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)$/;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+/**
+ * Returns a URL the image can be stored and fetched by, uploading it first if the
+ * provider returned the image inline.
+ * @throws Error if the upload fails
+ */
+export async function storeGeneratedImage(userId: string, imageId: string, imageUrl: string): Promise<string> {
+  const match = imageUrl.match(DATA_URI_PATTERN);
+  if (!match) {
+    return imageUrl;
+  }
+
+  const [, contentType, base64] = match;
+  const bucket = getStorage().bucket(process.env.FIREBASE_STORAGE_BUCKET || undefined);
+  const path = `generatedImages/${userId}/${imageId}.${EXTENSIONS[contentType] ?? 'img'}`;
+  // The same kind of token the Firebase console gives a file, so the URL works without signing
+  const token = crypto.randomUUID();
+
+  await bucket.file(path).save(Buffer.from(base64, 'base64'), {
+    contentType,
+    resumable: false,
+    metadata: { metadata: { firebaseStorageDownloadTokens: token } },
+  });
+
+  return `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+}
@@ -0,0 +1,260 @@
+// lib/invoices.ts
+import { jsPDF } from 'jspdf';
+import type { DocumentReference, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { getProduct, type ProductId } from '@/lib/plans';
+import type { TaxRule } from '@/lib/pricing';
+
+/**
+ * Tax invoices
+ *
+ * An invoice is issued inside the transaction that marks a payment as paid, so every
+ * paid order has exactly one invoice and numbers are never skipped or reused. Invoices
+ * are stored at `users/{userId}/invoices/{orderId}` as an immutable snapshot of the
+ * seller, buyer and amounts at the time of sale; the PDF is rendered from that snapshot
+ * on download, so it is identical every time.
+ *
+ * Tax follows the rule the order was priced with (see `lib/pricing.ts`): GST for sales in
+ * INR, VAT or none elsewhere. Numbers come from the `counters/invoices` document.
+ */
+
+export interface InvoiceParty {
+  name: string;
+  email?: string;
+  address?: string;
+  state?: string;
+  gstin?: string;
+}
+
+export interface InvoiceTax {
+  rate: number; // Percent
+  cgst: number;
+  sgst: number;
+  igst: number;
+  // Set for taxes other than GST, which are not split; invoices issued before other taxes had neither
+  name?: string;
+  amount?: number;
+}
+
+export interface InvoiceRecord {
+  invoiceNumber: string;
+  orderId: string;
+  paymentId: string;
+  userId: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  description: string;
+  product: ProductId;
+  listAmount: number; // Price before any coupon
+  discount: number;
+  total: number; // What was charged, tax included
+  taxableAmount: number;
+  tax: InvoiceTax;
+  currency: string;
+  issuedAt: Timestamp;
+}
+
+interface InvoicePayment {
+  orderId: string;
+  userId: string;
+  plan: ProductId;
+  amount: number;
+  listAmount?: number;
+  currency: string;
+  tax?: TaxRule;
+}
+
+function invoiceRef(userId: string, orderId: string) {
+  return getDb().collection(`users/${userId}/invoices`).doc(orderId);
+}
+
+function counterRef() {
+  return getDb().collection('counters').doc('invoices');
+}
+
+function formatInvoiceNumber(sequence: number): string {
+  return `INV-${String(sequence).padStart(6, '0')}`;
+}
+
+function getSeller(): InvoiceParty {
+  return {
+    name: process.env.INVOICE_SELLER_NAME || 'AI Coloring Studio',
+    address: process.env.INVOICE_SELLER_ADDRESS || undefined,
+    state: process.env.INVOICE_SELLER_STATE || undefined,
+    gstin: process.env.INVOICE_SELLER_GSTIN || undefined,
+  };
+}
+
+/**
+ * Splits a tax-inclusive total into its taxable value and tax.
+ * For GST, sales within the seller's state pay CGST + SGST; any other sale pays IGST.
+ */
+function computeTax(total: number, seller: InvoiceParty, buyer: InvoiceParty, taxRule?: TaxRule): { taxableAmount: number; tax: InvoiceTax } {
+  const rate = taxRule?.rate ?? Number(process.env.INVOICE_GST_RATE ?? 18);
+  const taxableAmount = Math.round((total * 100) / (100 + rate));
+  const taxAmount = total - taxableAmount;
+
+  if (taxRule && taxRule.name !== 'GST') {
+    return { taxableAmount, tax: { rate, cgst: 0, sgst: 0, igst: 0, name: taxRule.name, amount: taxAmount } };
+  }
+
+  const intraState = !buyer.state || !seller.state || buyer.state === seller.state;
+
+  return {
+    taxableAmount,
+    tax: intraState
+      ? { rate, cgst: Math.floor(taxAmount / 2), sgst: taxAmount - Math.floor(taxAmount / 2), igst: 0 }
+      : { rate, cgst: 0, sgst: 0, igst: taxAmount },
+  };
+}
+
+/**
+ * Issues the invoice for a paid order inside the caller's payment transaction, in two
+ * phases: this does the reads and returns the writes, so the caller can finish all of
+ * its own reads (Firestore rejects a read after a write) before applying them.
+ * Idempotent per order; free orders get no invoice.
+ */
+export async function prepareInvoice(transaction: Transaction, payment: InvoicePayment, paymentId: string, userRef: DocumentReference): Promise<() => void> {
+  const ref = invoiceRef(payment.userId, payment.orderId);
+  const [existing, counter, userDoc] = await Promise.all([
+    transaction.get(ref),
+    transaction.get(counterRef()),
+    transaction.get(userRef),
+  ]);
+
+  if (existing.exists || payment.amount <= 0) {
+    return () => {};
+  }
+
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+  const sequence = (counter.data()?.lastNumber ?? 0) + 1;
+  const profile = userDoc.data();
+  const billing = profile?.billingDetails ?? {};
+  const seller = getSeller();
+  const buyer: InvoiceParty = {
+    name: billing.name || profile?.displayName || profile?.email || 'Customer',
+    email: profile?.email ?? undefined,
+    address: billing.address || undefined,
+    state: billing.state || undefined,
+    gstin: billing.gstin || undefined,
+  };
+  const listAmount = payment.listAmount ?? payment.amount;
+
+  // Firestore rejects undefined values, so optional party fields are dropped
+  const record: Omit<InvoiceRecord, 'issuedAt'> = JSON.parse(JSON.stringify({
+    invoiceNumber: formatInvoiceNumber(sequence),
+    orderId: payment.orderId,
+    paymentId,
+    userId: payment.userId,
+    seller,
+    buyer,
+    description: getProduct(payment.plan)?.description ?? payment.plan,
+    product: payment.plan,
+    listAmount,
+    discount: listAmount - payment.amount,
+    total: payment.amount,
+    ...computeTax(payment.amount, seller, buyer, payment.tax),
+    currency: payment.currency,
+  }));
+
+  return () => {
+    transaction.set(counterRef(), { lastNumber: sequence }, { merge: true });
+    transaction.create(ref, {
+      ...record,
+      issuedAt: Timestamp.now(),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  };
+}
+
+export async function getInvoice(userId: string, orderId: string): Promise<InvoiceRecord | null> {
+  const snap = await invoiceRef(userId, orderId).get();
+  return snap.exists ? (snap.data() as InvoiceRecord) : null;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${(amount / 100).toFixed(2)}`;
+}
+
+function partyLines(party: InvoiceParty): string[] {
+  return [
+    party.name,
+    party.address,
+    party.state,
+    party.email,
+    party.gstin && `GSTIN: ${party.gstin}`,
+  ].filter((line): line is string => !!line);
+}
+
+/**
+ * Renders an invoice as an A4 PDF.
+ */
+export function renderInvoicePdf(invoice: InvoiceRecord): ArrayBuffer {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+  const left = 20;
+  const right = 190;
+
+  pdf.setFontSize(20);
+  pdf.text('Tax Invoice', left, 25);
+  pdf.setFontSize(10);
+  pdf.text(`Invoice No: ${invoice.invoiceNumber}`, right, 20, { align: 'right' });
+  pdf.text(`Date: ${invoice.issuedAt.toDate().toLocaleDateString('en-IN')}`, right, 26, { align: 'right' });
+  pdf.text(`Order: ${invoice.orderId}`, right, 32, { align: 'right' });
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('From', left, 45);
+  pdf.text('Bill To', 110, 45);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(partyLines(invoice.seller), left, 51);
+  pdf.text(partyLines(invoice.buyer), 110, 51);
+
+  let y = 90;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Description', left, y);
+  pdf.text('Amount', right, y, { align: 'right' });
+  pdf.line(left, y + 2, right, y + 2);
+  pdf.setFont('helvetica', 'normal');
+
+  y += 9;
+  pdf.text(invoice.description, left, y);
+  pdf.text(money(invoice.listAmount), right, y, { align: 'right' });
+
+  const rows: [string, number][] = [];
+  if (invoice.discount > 0) {
+    rows.push(['Discount', -invoice.discount]);
+  }
+  rows.push(['Taxable value', invoice.taxableAmount]);
+  if (invoice.tax.name) {
+    if (invoice.tax.rate > 0) {
+      rows.push([`${invoice.tax.name} @ ${invoice.tax.rate}%`, invoice.tax.amount ?? 0]);
+    }
+  } else if (invoice.tax.igst > 0) {
+    rows.push([`IGST @ ${invoice.tax.rate}%`, invoice.tax.igst]);
+  } else {
+    rows.push([`CGST @ ${invoice.tax.rate / 2}%`, invoice.tax.cgst]);
+    rows.push([`SGST @ ${invoice.tax.rate / 2}%`, invoice.tax.sgst]);
+  }
+
+  y += 6;
+  pdf.line(left, y, right, y);
+  for (const [label, amount] of rows) {
+    y += 7;
+    pdf.text(label, 120, y);
+    pdf.text(money(amount), right, y, { align: 'right' });
+  }
+
+  y += 4;
+  pdf.line(120, y, right, y);
+  y += 7;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Total (tax included)', 120, y);
+  pdf.text(money(invoice.total), right, y, { align: 'right' });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.text(`Payment ID: ${invoice.paymentId}`, left, 280);
+  pdf.text('This is a computer-generated invoice and does not require a signature.', left, 285);
+
+  return pdf.output('arraybuffer');
+}
@@ -0,0 +1,52 @@
+// lib/notifications.ts
+import type { Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+
+/**
+ * In-app notifications and the admin audit log.
+ *
+ * Notifications are written to `users/{userId}/notifications` and shown to the user as a
+ * toast the next time the app is open; the client may only mark them as read.
+ * Changes made to an account by staff or by the payment gateway are also recorded in
+ * the top-level `auditLog` collection, which is readable only with the Admin SDK.
+ */
+
+export type NotificationType = 'refund' | 'billing' | 'gift' | 'referral' | 'group';
+
+export interface UserNotification {
+  type: NotificationType;
+  title: string;
+  body: string;
+}
+
+export interface AuditLogEntry {
+  action: string;
+  userId: string;
+  source: 'admin' | 'webhook' | 'system';
+  actorId?: string | null;
+  details: Record<string, unknown>;
+}
+
+/**
+ * Queues a notification for the user inside the caller's transaction.
+ */
+export function notifyUser(transaction: Transaction, userId: string, notification: UserNotification) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  transaction.create(getDb().collection(`users/${userId}/notifications`).doc(), {
+    ...notification,
+    read: false,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Records an account change in the audit log inside the caller's transaction.
+ */
+export function writeAuditLog(transaction: Transaction, entry: AuditLogEntry) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  transaction.create(getDb().collection('auditLog').doc(), {
+    ...entry,
+    actorId: entry.actorId ?? null,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Page formats a coloring page can be drawn for. Shared by the format picker, the server
+ * and PDF export. The image is generated at the format's `aspectRatio` (the nearest one
+ * image models support) and exported onto a sheet of the format's size, so it prints
+ * without being squashed or left floating in the middle of the page.
+ */
+
+import { jsPDF } from 'jspdf';
+
+export const PAGE_FORMATS = ['a4', 'letter', 'a5', 'square'] as const;
+
+export type PageFormat = (typeof PAGE_FORMATS)[number];
+
+// Pages made before formats existed are square
+export const DEFAULT_PAGE_FORMAT: PageFormat = 'square';
+
+export interface PageFormatSpec {
+  id: PageFormat;
+  name: string;
+  description: string; // Shown in the picker
+  widthMm: number;
+  heightMm: number;
+  aspectRatio: '1:1' | '3:4'; // Width to height, as passed to the image provider
+}
+
+export const PAGE_FORMAT_SPECS: Record<PageFormat, PageFormatSpec> = {
+  a4: { id: 'a4', name: 'A4', description: '210 × 297 mm, portrait', widthMm: 210, heightMm: 297, aspectRatio: '3:4' },
+  letter: { id: 'letter', name: 'US Letter', description: '8.5 × 11 in, portrait', widthMm: 215.9, heightMm: 279.4, aspectRatio: '3:4' },
+  a5: { id: 'a5', name: 'A5', description: '148 × 210 mm, portrait', widthMm: 148, heightMm: 210, aspectRatio: '3:4' },
+  square: { id: 'square', name: 'Square', description: '210 × 210 mm', widthMm: 210, heightMm: 210, aspectRatio: '1:1' },
+};
+
+// Most home printers can't print closer to the edge than this
+export const PAGE_MARGIN_MM = 10;
+
+/**
+ * Lays a generated page out on a sheet of the given format: scaled to fill the sheet inside
+ * its margins, keeping its proportions, and centred along the other side.
+ */
+export function renderPagePdf(imageData: string, imageWidth: number, imageHeight: number, format: PageFormat): jsPDF {
+  const { widthMm, heightMm } = PAGE_FORMAT_SPECS[format];
+  const pdf = new jsPDF({ orientation: widthMm > heightMm ? 'landscape' : 'portrait', unit: 'mm', format: [widthMm, heightMm] });
+
+  const scale = Math.min((widthMm - 2 * PAGE_MARGIN_MM) / imageWidth, (heightMm - 2 * PAGE_MARGIN_MM) / imageHeight);
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  pdf.addImage(imageData, 'PNG', (widthMm - width) / 2, (heightMm - height) / 2, width, height);
+  return pdf;
+}
@@ -0,0 +1,79 @@
+/**
+ * @fileOverview In-memory fake gateway for tests and offline development.
+ *
+ * Enabled with PAYMENT_GATEWAY=fake, or under test; `getPaymentGateway` refuses it
+ * anywhere else. Every checkout succeeds immediately, and
+ * webhooks are plain JSON `GatewayWebhookEvent`s (without the resolver functions),
+ * accepted only when they carry the `x-fake-gateway-secret` header.
+ */
+
+import crypto from 'crypto';
+import { GatewayError, type PaymentGateway } from './types';
+
+export const FAKE_GATEWAY_SECRET = 'fake_gateway_secret';
+
+interface FakeOrder {
+  orderId: string;
+  paymentId: string;
+  userId: string;
+  amount: number;
+  currency: string;
+  amountRefunded: number;
+}
+
+// Survives re-creating the gateway, like a real gateway's account would
+const orders = new Map<string, FakeOrder>();
+
+function fakeId(prefix: string) {
+  return `${prefix}_fake${crypto.randomBytes(7).toString('hex')}`;
+}
+
+export function createFakeGateway(): PaymentGateway {
+  return {
+    name: 'fake',
+
+    async createCheckout({ userId, amount, currency }) {
+      const order = { orderId: fakeId('order'), paymentId: fakeId('pay'), userId, amount, currency, amountRefunded: 0 };
+      orders.set(order.orderId, order);
+
+      return {
+        orderId: order.orderId,
+        client: { type: 'completed', payload: { order_id: order.orderId, payment_id: order.paymentId } },
+      };
+    },
+
+    async verifyPayment(payload) {
+      const order = orders.get(String(payload.order_id));
+      if (!order || order.paymentId !== payload.payment_id) {
+        throw new GatewayError('Invalid payment signature');
+      }
+      return {
+        orderId: order.orderId,
+        paymentId: order.paymentId,
+        status: 'paid',
+        amount: order.amount,
+        currency: order.currency,
+        userId: order.userId,
+      };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (headers.get('x-fake-gateway-secret') !== FAKE_GATEWAY_SECRET) {
+        throw new GatewayError('Invalid webhook signature');
+      }
+
+      const event = JSON.parse(rawBody);
+      const order = event.orderId ? orders.get(event.orderId) : undefined;
+      return { ...event, resolveUserId: async () => order?.userId ?? null };
+    },
+
+    async refund(paymentId, amount) {
+      const order = [...orders.values()].find((o) => o.paymentId === paymentId);
+      if (!order || order.amountRefunded + amount > order.amount) {
+        throw new GatewayError('The refund amount is greater than the amount captured.');
+      }
+      order.amountRefunded += amount;
+      return { refundId: fakeId('rfnd'), amount };
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Selects the payment gateway for a customer.
+ *
+ * - PAYMENT_GATEWAY        Forces one gateway for everyone (`razorpay`, `stripe` or `fake`).
+ * - STRIPE_SECRET_KEY      Enables Stripe Checkout for customers outside India.
+ * - STRIPE_WEBHOOK_SECRET  Signing secret of the Stripe webhook endpoint.
+ *
+ * Without an override, customers in India pay with Razorpay and everyone else with
+ * Stripe (falling back to Razorpay while Stripe is not configured).
+ */
+
+import { createFakeGateway } from './fake';
+import { createRazorpayGateway } from './razorpay';
+import { createStripeGateway } from './stripe';
+import { GatewayError, type PaymentGateway, type PaymentGatewayName } from './types';
+
+export { GatewayError } from './types';
+export type {
+  CheckoutClientAction,
+  CheckoutRequest,
+  CheckoutSession,
+  GatewayRefund,
+  GatewayWebhookEvent,
+  PaymentGateway,
+  PaymentGatewayName,
+  VerifiedPayment,
+} from './types';
+
+export const PAYMENT_GATEWAY_NAMES: PaymentGatewayName[] = ['razorpay', 'stripe', 'fake'];
+
+export function isPaymentGatewayName(name: unknown): name is PaymentGatewayName {
+  return PAYMENT_GATEWAY_NAMES.includes(name as PaymentGatewayName);
+}
+
+/**
+ * Whether the fake gateway may be used: only when it is forced for everyone, or under test.
+ * Its secret is public, so anywhere else it would accept forged payments.
+ */
+function isFakeGatewayEnabled(): boolean {
+  return process.env.PAYMENT_GATEWAY?.trim().toLowerCase() === 'fake' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Returns the named gateway.
+ * @throws GatewayError if that gateway is not configured, or is the fake one outside tests
+ *         and PAYMENT_GATEWAY=fake
+ */
+export function getPaymentGateway(name: PaymentGatewayName): PaymentGateway {
+  switch (name) {
+    case 'stripe': {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      if (!secretKey) {
+        throw new GatewayError('Stripe is not configured on the server.', 500);
+      }
+      return createStripeGateway({ secretKey, webhookSecret: process.env.STRIPE_WEBHOOK_SECRET });
+    }
+    case 'fake':
+      if (!isFakeGatewayEnabled()) {
+        throw new GatewayError('Unknown payment gateway.', 400);
+      }
+      return createFakeGateway();
+    case 'razorpay':
+    default:
+      return createRazorpayGateway();
+  }
+}
+
+/**
+ * Picks the gateway for a customer from their ISO country code (null if unknown).
+ */
+export function selectGatewayForCountry(country: string | null): PaymentGatewayName {
+  const configured = process.env.PAYMENT_GATEWAY?.trim().toLowerCase();
+  if (configured) {
+    if (!isPaymentGatewayName(configured)) {
+      throw new Error(`Unknown PAYMENT_GATEWAY "${configured}". Expected one of: ${PAYMENT_GATEWAY_NAMES.join(', ')}.`);
+    }
+    return configured;
+  }
+
+  if (!country || country.toUpperCase() === 'IN' || !process.env.STRIPE_SECRET_KEY) {
+    return 'razorpay';
+  }
+  return 'stripe';
+}
@@ -0,0 +1,160 @@
+/**
+ * @fileOverview Razorpay Orders + Checkout modal.
+ *
+ * Uses the shared client from `lib/razorpay.ts`, so RAZORPAY_MODE=stub swaps in the
+ * in-memory Razorpay stub and checkout completes without the modal.
+ */
+
+import {
+  createStubCheckoutResponse,
+  getRazorpayClient,
+  getRazorpayKeySecret,
+  isRazorpayStubMode,
+  resolveOrderUserId,
+  verifyCheckoutSignature,
+  verifyWebhookSignature,
+} from '@/lib/razorpay';
+import { GatewayError, type PaymentGateway } from './types';
+
+export function createRazorpayGateway(): PaymentGateway {
+  return {
+    name: 'razorpay',
+
+    async createCheckout({ userId, productId, amount, currency, receipt }) {
+      const order = await getRazorpayClient().orders.create({
+        amount,
+        currency,
+        receipt,
+        notes: {
+          firebase_uid: userId,
+          product: productId,
+        },
+      });
+
+      if (!order) {
+        throw new GatewayError('Failed to create order with Razorpay.', 502);
+      }
+
+      return {
+        orderId: order.id,
+        client: isRazorpayStubMode()
+          ? { type: 'completed', payload: createStubCheckoutResponse({ orderId: order.id }) }
+          : { type: 'razorpay', keyId: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID ?? '', orderId: order.id, amount, currency },
+      };
+    },
+
+    async verifyPayment(payload) {
+      const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = payload as Record<string, string | undefined>;
+
+      if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
+        throw new GatewayError('Missing required fields');
+      }
+
+      const secret = getRazorpayKeySecret();
+      if (!secret) {
+        console.error('❌ RAZORPAY_KEY_SECRET not found in environment');
+        throw new GatewayError('Server configuration error', 500);
+      }
+
+      if (!verifyCheckoutSignature(`${razorpay_order_id}|${razorpay_payment_id}`, razorpay_signature, secret)) {
+        throw new GatewayError('Invalid payment signature');
+      }
+
+      // A valid signature only proves Checkout saw the payment; its state comes from the API
+      let order: any;
+      let payment: any;
+      try {
+        const client = getRazorpayClient();
+        [order, payment] = await Promise.all([
+          client.orders.fetch(razorpay_order_id),
+          client.payments.fetch(razorpay_payment_id),
+        ]);
+      } catch (error: any) {
+        console.error('❌ Razorpay lookup failed:', error.error?.description || error.message);
+        throw new GatewayError('Could not look up the payment with Razorpay.', 502);
+      }
+
+      if (payment.order_id !== order.id) {
+        throw new GatewayError('Payment does not belong to this order');
+      }
+
+      return {
+        orderId: order.id,
+        paymentId: payment.id,
+        status: order.status === 'paid' && payment.status === 'captured' ? 'paid' : 'pending',
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        userId: order.notes?.firebase_uid ?? null,
+      };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+      if (!webhookSecret) {
+        console.error('❌ RAZORPAY_WEBHOOK_SECRET not found in environment');
+        throw new GatewayError('Server configuration error', 500);
+      }
+
+      // The signature covers the raw body, so it is checked before parsing
+      const signature = headers.get('x-razorpay-signature');
+      if (!signature || !verifyWebhookSignature(rawBody, signature, webhookSecret)) {
+        throw new GatewayError('Invalid webhook signature');
+      }
+
+      const id = headers.get('x-razorpay-event-id');
+      if (!id) {
+        throw new GatewayError('Missing event id');
+      }
+
+      const event = JSON.parse(rawBody);
+      const payment = event.payload?.payment?.entity;
+      const base = { id, type: event.event as string };
+
+      switch (event.event) {
+        case 'payment.authorized':
+          return { ...base, kind: 'payment.authorized', orderId: payment.order_id, paymentId: payment.id };
+        case 'payment.captured':
+          // Subscription charges are applied by the subscription.charged event
+          if (payment?.invoice_id) {
+            return { ...base, kind: 'other', payload: event.payload };
+          }
+          return {
+            ...base,
+            kind: 'payment.captured',
+            orderId: payment.order_id,
+            paymentId: payment.id,
+            resolveUserId: () => resolveOrderUserId(payment.order_id),
+          };
+        case 'payment.failed':
+          return {
+            ...base,
+            kind: 'payment.failed',
+            orderId: payment.order_id,
+            paymentId: payment.id,
+            reason: payment.error_description ?? 'unknown',
+          };
+        case 'refund.processed': {
+          const refund = event.payload.refund?.entity;
+          const refundedPayment = payment ?? await getRazorpayClient().payments.fetch(refund.payment_id);
+          return {
+            ...base,
+            kind: 'refund.processed',
+            refundId: refund.id,
+            paymentId: refund.payment_id,
+            orderId: refundedPayment?.order_id ?? null,
+            amount: Number(refund.amount),
+            paymentAmount: Number(refundedPayment?.amount),
+            resolveUserId: () => resolveOrderUserId(refundedPayment?.order_id),
+          };
+        }
+        default:
+          return { ...base, kind: 'other', payload: event.payload };
+      }
+    },
+
+    async refund(paymentId, amount, notes) {
+      const refund = await getRazorpayClient().payments.refund(paymentId, { amount, notes });
+      return { refundId: refund.id, amount: Number(refund.amount ?? amount) };
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileOverview Stripe Checkout (hosted payment page), for customers outside India.
+ *
+ * Talks to the Stripe REST API directly. The Checkout Session ID is the order ID in
+ * the payments ledger, and the PaymentIntent ID is the payment ID.
+ */
+
+import crypto from 'crypto';
+import { GatewayError, type PaymentGateway } from './types';
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+// Stripe's recommended limit on the age of a webhook signature
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+interface StripeGatewayConfig {
+  secretKey: string;
+  webhookSecret?: string;
+}
+
+/**
+ * Flattens nested params into Stripe's form encoding, e.g. `metadata[firebase_uid]=...`.
+ */
+function encodeForm(params: Record<string, unknown>, prefix = '', form = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      encodeForm(value as Record<string, unknown>, name, form);
+    } else {
+      form.append(name, String(value));
+    }
+  }
+  return form;
+}
+
+function verifySignature(rawBody: string, header: string, secret: string): boolean {
+  const parts = Object.fromEntries(header.split(',').map((part) => part.split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.t || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(`${parts.t}.${rawBody}`).digest('hex'));
+  const received = Buffer.from(parts.v1);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+export function createStripeGateway({ secretKey, webhookSecret }: StripeGatewayConfig): PaymentGateway {
+  async function stripeRequest(method: 'GET' | 'POST', path: string, params?: Record<string, unknown>): Promise<any> {
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params ? encodeForm(params) : undefined,
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      console.error(`❌ Stripe ${method} ${path} failed:`, body.error?.message);
+      throw new GatewayError(body.error?.message || 'Stripe request failed.', response.status >= 500 ? 502 : 400);
+    }
+    return body;
+  }
+
+  return {
+    name: 'stripe',
+
+    async createCheckout({ userId, email, productId, description, amount, currency, receipt, returnUrl }) {
+      const separator = returnUrl.includes('?') ? '&' : '?';
+      const session = await stripeRequest('POST', '/checkout/sessions', {
+        mode: 'payment',
+        client_reference_id: userId,
+        customer_email: email ?? undefined,
+        line_items: {
+          0: {
+            quantity: 1,
+            price_data: {
+              currency: currency.toLowerCase(),
+              unit_amount: amount,
+              product_data: { name: description },
+            },
+          },
+        },
+        metadata: { firebase_uid: userId, product: productId, receipt },
+        payment_intent_data: { metadata: { firebase_uid: userId, product: productId } },
+        // Stripe fills in {CHECKOUT_SESSION_ID}
+        success_url: `${returnUrl}${separator}gateway=stripe&session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${returnUrl}${separator}checkout=cancelled`,
+      });
+
+      return { orderId: session.id, client: { type: 'redirect', url: session.url } };
+    },
+
+    async verifyPayment(payload) {
+      const sessionId = payload.session_id;
+      if (typeof sessionId !== 'string' || !sessionId.startsWith('cs_')) {
+        throw new GatewayError('Missing required fields');
+      }
+
+      // The session is read back from Stripe, so nothing the browser sends is trusted
+      const session = await stripeRequest('GET', `/checkout/sessions/${encodeURIComponent(sessionId)}`);
+      if (!session.payment_intent) {
+        throw new GatewayError('Payment has not been completed');
+      }
+
+      return {
+        orderId: session.id,
+        paymentId: session.payment_intent,
+        status: session.payment_status === 'paid' ? 'paid' : 'pending',
+        amount: session.amount_total,
+        currency: String(session.currency).toUpperCase(),
+        userId: session.metadata?.firebase_uid ?? null,
+      };
+    },
+
+    async parseWebhook(rawBody, headers) {
+      if (!webhookSecret) {
+        console.error('❌ STRIPE_WEBHOOK_SECRET not found in environment');
+        throw new GatewayError('Server configuration error', 500);
+      }
+
+      const signature = headers.get('stripe-signature');
+      if (!signature || !verifySignature(rawBody, signature, webhookSecret)) {
+        throw new GatewayError('Invalid webhook signature');
+      }
+
+      const event = JSON.parse(rawBody);
+      const object = event.data?.object;
+      const base = { id: event.id as string, type: event.type as string };
+
+      switch (event.type) {
+        case 'checkout.session.completed':
+        case 'checkout.session.async_payment_succeeded':
+          // Delayed payment methods complete the session before the money arrives
+          if (object.payment_status !== 'paid') {
+            return { ...base, kind: 'payment.authorized', orderId: object.id, paymentId: object.payment_intent };
+          }
+          return {
+            ...base,
+            kind: 'payment.captured',
+            orderId: object.id,
+            paymentId: object.payment_intent,
+            resolveUserId: async () => object.metadata?.firebase_uid ?? null,
+          };
+        case 'checkout.session.async_payment_failed':
+        case 'checkout.session.expired':
+          return {
+            ...base,
+            kind: 'payment.failed',
+            orderId: object.id,
+            paymentId: object.payment_intent ?? null,
+            reason: event.type === 'checkout.session.expired' ? 'expired' : 'async_payment_failed',
+          };
+        case 'refund.created':
+        case 'refund.updated':
+          if (object.status === 'succeeded') {
+            return {
+              ...base,
+              kind: 'refund.processed',
+              refundId: object.id,
+              paymentId: object.payment_intent,
+              orderId: null,
+              amount: object.amount,
+              paymentAmount: null,
+              resolveUserId: async () => null,
+            };
+          }
+          return { ...base, kind: 'other', payload: object };
+        default:
+          return { ...base, kind: 'other', payload: object };
+      }
+    },
+
+    async refund(paymentId, amount, notes) {
+      const refund = await stripeRequest('POST', '/refunds', {
+        payment_intent: paymentId,
+        amount,
+        metadata: notes,
+      });
+      return { refundId: refund.id, amount: refund.amount };
+    },
+  };
+}
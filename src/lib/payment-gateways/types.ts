@@ -0,0 +1,105 @@
+/**
+ * @fileOverview Shared contract for payment gateways.
+ *
+ * Every gateway (Razorpay, Stripe Checkout, the in-memory fake) implements
+ * PaymentGateway, so checkout, verification, webhooks and refunds never need to
+ * know which vendor took the money. Recurring plans still use Razorpay
+ * Subscriptions directly (see `lib/subscriptions.ts`).
+ */
+
+export type PaymentGatewayName = 'razorpay' | 'stripe' | 'fake';
+
+export interface CheckoutRequest {
+  userId: string;
+  email: string | null;
+  productId: string;
+  description: string;
+  amount: number; // In the currency's smallest unit
+  currency: string;
+  receipt: string;
+  returnUrl: string; // Where redirect-based gateways send the customer back to
+}
+
+/**
+ * What the browser must do to finish paying:
+ * - `razorpay`  open the Razorpay Checkout modal for the order
+ * - `redirect`  send the customer to a hosted checkout page
+ * - `completed` nothing; post `payload` to /api/verify-payment (stub and fake gateways)
+ */
+export type CheckoutClientAction =
+  | { type: 'razorpay'; keyId: string; orderId: string; amount: number; currency: string }
+  | { type: 'redirect'; url: string }
+  | { type: 'completed'; payload: Record<string, string> };
+
+export interface CheckoutSession {
+  orderId: string; // The gateway's order or session ID; also the payments ledger key
+  client: CheckoutClientAction;
+}
+
+/**
+ * A payment as the gateway itself reports it, never as the browser does.
+ */
+export interface VerifiedPayment {
+  orderId: string;
+  paymentId: string;
+  status: 'paid' | 'pending';
+  amount: number;
+  currency: string;
+  userId: string | null; // The firebase_uid the order was created for
+}
+
+export interface GatewayRefund {
+  refundId: string;
+  amount: number;
+}
+
+/**
+ * A gateway webhook, normalised. Events the shared handler doesn't know about are
+ * passed through as `other` so a route can handle gateway-specific ones itself.
+ */
+export type GatewayWebhookEvent = { id: string; type: string } & (
+  | { kind: 'payment.authorized'; orderId: string; paymentId: string }
+  | { kind: 'payment.captured'; orderId: string; paymentId: string; resolveUserId: () => Promise<string | null> }
+  | { kind: 'payment.failed'; orderId: string; paymentId: string | null; reason: string }
+  | {
+      kind: 'refund.processed';
+      refundId: string;
+      paymentId: string;
+      orderId: string | null;
+      amount: number;
+      paymentAmount: number | null; // Only needed for payments missing from the ledger
+      resolveUserId: () => Promise<string | null>;
+    }
+  | { kind: 'other'; payload: any }
+);
+
+export interface PaymentGateway {
+  readonly name: PaymentGatewayName;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /**
+   * Checks what the browser reports after checkout, then looks the order and
+   * payment up with the gateway.
+   * @throws GatewayError if the payment is not genuine
+   */
+  verifyPayment(payload: Record<string, unknown>): Promise<VerifiedPayment>;
+  /**
+   * Authenticates and normalises a webhook delivery.
+   * @throws GatewayError if the signature is missing or invalid
+   */
+  parseWebhook(rawBody: string, headers: Headers): Promise<GatewayWebhookEvent>;
+  refund(paymentId: string, amount: number, notes: Record<string, string>): Promise<GatewayRefund>;
+}
+
+/**
+ * Thrown when a gateway rejects a request or a payload cannot be trusted.
+ * Carries the HTTP status the route should respond with.
+ */
+export class GatewayError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'GatewayError';
+    this.status = status;
+  }
+}
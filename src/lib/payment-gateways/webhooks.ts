@@ -0,0 +1,198 @@
+// lib/payment-gateways/webhooks.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import {
+  completePayment,
+  findPaymentByPaymentId,
+  getPaymentRecord,
+  grantProAccess,
+  recordPaymentAttempt,
+  recordRefund,
+} from '@/lib/payments';
+import { GatewayError, type GatewayWebhookEvent, type PaymentGateway } from './types';
+
+/**
+ * Server-to-server payment webhooks, shared by every gateway's route.
+ *
+ * Upgrades users even if the browser never reached /api/verify-payment (closed tab,
+ * lost connection). Each event is recorded at `{gateway}WebhookEvents/{eventId}` so
+ * at-least-once retries are processed exactly once.
+ */
+
+type ClaimResult = 'claimed' | 'in_progress' | 'duplicate';
+
+/**
+ * How long a `processing` claim holds off other deliveries of the event. A handler that
+ * crashed never marks its event processed or failed, so after this the claim is presumed
+ * abandoned and the next retry takes it over.
+ */
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type WebhookOutcome = Record<string, any>;
+
+/**
+ * Handlers for gateway-specific events, keyed by the gateway's event type.
+ */
+export type GatewayEventHandlers = Record<string, (payload: any) => Promise<WebhookOutcome>>;
+
+function eventRefFor(gateway: PaymentGateway, eventId: string) {
+  return getDb().collection(`${gateway.name}WebhookEvents`).doc(eventId);
+}
+
+async function claimEvent(gateway: PaymentGateway, eventId: string, eventType: string): Promise<ClaimResult> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const eventRef = eventRefFor(gateway, eventId);
+
+  return db.runTransaction(async (transaction) => {
+    const eventDoc = await transaction.get(eventRef);
+    const status = eventDoc.data()?.status;
+    if (status === 'processing') {
+      // Claims from before claimedAt was recorded count as abandoned
+      const claimedAt: number = eventDoc.data()?.claimedAt?.toMillis() ?? 0;
+      if (Date.now() - claimedAt < CLAIM_TIMEOUT_MS) {
+        return 'in_progress';
+      }
+      console.warn(`⚠️ Webhook event ${eventId} was abandoned mid-processing; claiming it again`);
+    } else if (eventDoc.exists && status !== 'failed') {
+      // Failed events may be retried too; anything else has been handled
+      return 'duplicate';
+    }
+
+    transaction.set(eventRef, {
+      event: eventType,
+      status: 'processing',
+      attempts: FieldValue.increment(1),
+      receivedAt: FieldValue.serverTimestamp(),
+      claimedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return 'claimed';
+  });
+}
+
+async function handlePaymentCaptured(event: Extract<GatewayWebhookEvent, { kind: 'payment.captured' }>): Promise<WebhookOutcome> {
+  if (await getPaymentRecord(event.orderId)) {
+    const userId = await completePayment(event.orderId, event.paymentId);
+    console.log(`✅ Payment ${event.paymentId} applied for user ${userId} via webhook`);
+    return { outcome: 'upgraded', userId };
+  }
+
+  // Orders created before the payments ledger existed are matched via their notes
+  const userId = await event.resolveUserId();
+
+  if (!userId) {
+    console.error(`❌ No firebase_uid for order ${event.orderId}; cannot upgrade`);
+    return { outcome: 'unmatched' };
+  }
+
+  await grantProAccess(userId, { orderId: event.orderId, paymentId: event.paymentId });
+  console.log(`✅ User ${userId} upgraded to Pro via webhook`);
+  return { outcome: 'upgraded', userId };
+}
+
+async function handleRefundProcessed(gateway: PaymentGateway, event: Extract<GatewayWebhookEvent, { kind: 'refund.processed' }>): Promise<WebhookOutcome> {
+  const payment = event.orderId ? await getPaymentRecord(event.orderId) : await findPaymentByPaymentId(event.paymentId);
+  const userId = payment?.userId ?? await event.resolveUserId();
+
+  if (!userId || (!payment && event.paymentAmount === null)) {
+    console.error(`❌ No ${gateway.name} payment ${event.paymentId} to refund`);
+    return { outcome: 'unmatched' };
+  }
+
+  // Refunds issued from the admin action were already recorded; this is then a no-op
+  const result = await recordRefund({
+    orderId: payment?.orderId ?? event.orderId ?? undefined,
+    userId,
+    paymentId: event.paymentId,
+    refundId: event.refundId,
+    amount: event.amount,
+    paymentAmount: event.paymentAmount ?? payment!.amount,
+    source: 'webhook',
+  });
+  console.log(`✅ Refund ${event.refundId} recorded for user ${result.userId} (${result.change})`);
+  return { outcome: result.change === 'none' ? 'refunded' : result.change, userId: result.userId };
+}
+
+async function dispatch(gateway: PaymentGateway, event: GatewayWebhookEvent, handlers: GatewayEventHandlers): Promise<WebhookOutcome> {
+  switch (event.kind) {
+    case 'payment.authorized':
+      await recordPaymentAttempt(event.orderId, 'attempted', { paymentId: event.paymentId });
+      return { outcome: 'recorded' };
+    case 'payment.captured':
+      return handlePaymentCaptured(event);
+    case 'payment.failed':
+      console.log(`⚠️  Payment for order ${event.orderId} failed: ${event.reason}`);
+      await recordPaymentAttempt(event.orderId, 'failed', {
+        ...(event.paymentId && { paymentId: event.paymentId }),
+        failureReason: event.reason,
+      });
+      return { outcome: 'recorded', failureReason: event.reason };
+    case 'refund.processed':
+      return handleRefundProcessed(gateway, event);
+    case 'other':
+      return handlers[event.type] ? handlers[event.type](event.payload) : { outcome: 'ignored' };
+  }
+}
+
+/**
+ * Authenticates, de-duplicates and applies one webhook delivery.
+ * Responds with a non-2xx status on failure so the gateway retries the delivery.
+ */
+export async function processGatewayWebhook(gateway: PaymentGateway, request: NextRequest, handlers: GatewayEventHandlers = {}) {
+  // The signature covers the raw body, so read it before parsing
+  const rawBody = await request.text();
+
+  let event: GatewayWebhookEvent;
+  try {
+    event = await gateway.parseWebhook(rawBody, request.headers);
+  } catch (error: any) {
+    if (error instanceof GatewayError) {
+      console.error(`❌ Rejected ${gateway.name} webhook: ${error.message}`);
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: error.status }
+      );
+    }
+    throw error;
+  }
+
+  const eventRef = eventRefFor(gateway, event.id);
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+
+  try {
+    const claim = await claimEvent(gateway, event.id, event.type);
+    if (claim === 'duplicate') {
+      console.log(`ℹ️  Webhook event ${event.id} already handled`);
+      return NextResponse.json({ success: true, duplicate: true });
+    }
+    if (claim === 'in_progress') {
+      // Not acknowledged, so the gateway retries; by then it is handled, or its claim has expired
+      console.log(`ℹ️  Webhook event ${event.id} is already being handled`);
+      return NextResponse.json(
+        { success: false, message: 'Event is already being processed' },
+        { status: 409 }
+      );
+    }
+
+    const result = await dispatch(gateway, event, handlers);
+
+    await eventRef.update({
+      ...result,
+      status: 'processed',
+      processedAt: FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error(`❌ Webhook event ${event.id} (${event.type}) failed:`, error);
+    await eventRef.update({
+      status: 'failed',
+      error: error.message ?? String(error),
+    }).catch(() => {});
+
+    return NextResponse.json(
+      { success: false, message: 'Webhook processing failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,595 @@
+// lib/payments.ts
+import type { DocumentReference, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { CREDIT_PACKS, GROUP_PLANS, hasActivePro, isCreditPackId, isGroupPlanId, type PlanId, type ProductId } from '@/lib/plans';
+import { prepareCouponRedemption, type CouponApplication } from '@/lib/coupons';
+import { GiftError, giftRef, issueGift, type GiftRecord, type PaymentGift } from '@/lib/gifts';
+import { applyGroupPlan, groupRef, type GroupRecord } from '@/lib/groups';
+import { prepareInvoice } from '@/lib/invoices';
+import { notifyUser, writeAuditLog } from '@/lib/notifications';
+import type { PaymentGatewayName } from '@/lib/payment-gateways/types';
+import type { TaxRule } from '@/lib/pricing';
+import { getRazorpayClient } from '@/lib/razorpay';
+
+/**
+ * Payments ledger
+ *
+ * Every order gets a `payments/{orderId}` document when it is created, which then moves
+ * through a small state machine:
+ *
+ *   created → attempted → paid → refunded
+ *        ↘        ↕  ↗        ↘      ↑
+ *          failed       partially_refunded
+ *
+ * A failed attempt is not terminal: the customer can retry on the same order.
+ * Partial refunds accumulate in `amountRefunded` until the payment is fully refunded.
+ * The ledger is the billing record used for verification and reconciliation, and
+ * is shared by the browser-driven verify-payment route and the Razorpay webhook,
+ * so whichever arrives first applies the payment and the other is a no-op. Orders are
+ * keyed by the gateway's own ID (a Razorpay order or a Stripe Checkout Session).
+ *
+ * Orders made entirely free by a coupon never reach the gateway; they are recorded with
+ * `gateway: 'coupon'` and completed as soon as they are created.
+ *
+ * Gift orders (`gift` set) are paid by the gifter, whose uid stays in `userId`, but what
+ * they buy is applied to whoever redeems the gift (see `lib/gifts.ts`).
+ *
+ * Group plans add to the buyer's shared generation pool instead (see `lib/groups.ts`).
+ */
+
+export type PaymentStatus = 'created' | 'attempted' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+
+const ALLOWED_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  created: ['attempted', 'paid', 'failed'],
+  attempted: ['attempted', 'paid', 'failed'],
+  failed: ['attempted', 'paid', 'failed'],
+  paid: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: [],
+};
+
+export type RefundSource = 'admin' | 'webhook';
+
+export interface PaymentRefund {
+  refundId: string;
+  amount: number;
+  source: RefundSource;
+  at: Timestamp;
+}
+
+export interface PaymentRecord {
+  orderId: string;
+  userId: string;
+  plan: ProductId; // A Pro plan, a credit pack or a group plan
+  amount: number; // What the customer is charged, after any coupon
+  listAmount?: number; // The catalog price, when a coupon changed it
+  coupon?: CouponApplication;
+  gift?: PaymentGift;
+  currency: string;
+  tax?: TaxRule; // From the pricing catalog; orders made before it had GST at INVOICE_GST_RATE
+  country?: string | null; // The customer's country the price was resolved for
+  receipt: string;
+  gateway: PaymentGatewayName | 'coupon';
+  status: PaymentStatus;
+  paymentId?: string;
+  subscriptionId?: string;
+  refundId?: string; // The latest refund
+  amountRefunded?: number;
+  refunds?: PaymentRefund[];
+  failureReason?: string;
+  statusHistory: { status: PaymentStatus; at: Timestamp }[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Thrown when a payment is missing or cannot move to the requested state.
+ */
+export class PaymentStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentStateError';
+  }
+}
+
+function paymentRef(orderId: string) {
+  return getDb().collection('payments').doc(orderId);
+}
+
+/**
+ * The payment that bought the profile's lifetime Pro. Profiles upgraded before
+ * other gateways existed store it as `razorpayPaymentId`.
+ */
+function proPaymentIdOf(userData: Record<string, any> | undefined): string | undefined {
+  return userData?.proPaymentId ?? userData?.razorpayPaymentId;
+}
+
+/**
+ * Builds the update that moves a payment to `to`, or throws if the move is not allowed.
+ */
+function transitionUpdate(current: PaymentStatus, to: PaymentStatus, fields: Record<string, any> = {}) {
+  if (!ALLOWED_TRANSITIONS[current].includes(to)) {
+    throw new PaymentStateError(`Payment cannot move from ${current} to ${to}.`);
+  }
+
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+  return {
+    ...fields,
+    status: to,
+    statusHistory: FieldValue.arrayUnion({ status: to, at: Timestamp.now() }),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Records a newly created gateway order in the ledger.
+ */
+export async function createPaymentRecord(
+  record: Pick<PaymentRecord, 'orderId' | 'userId' | 'plan' | 'amount' | 'currency' | 'receipt'>
+    & Partial<Pick<PaymentRecord, 'listAmount' | 'coupon' | 'gateway' | 'gift' | 'tax' | 'country'>>
+): Promise<void> {
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+  await paymentRef(record.orderId).create({
+    gateway: 'razorpay',
+    ...record,
+    status: 'created',
+    statusHistory: [{ status: 'created', at: Timestamp.now() }],
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Reads a payment from the ledger, or null if the order was never recorded.
+ */
+export async function getPaymentRecord(orderId: string): Promise<PaymentRecord | null> {
+  const snap = await paymentRef(orderId).get();
+  return snap.exists ? (snap.data() as PaymentRecord) : null;
+}
+
+/**
+ * Finds a payment by the gateway's payment ID, for webhooks that don't carry the order ID.
+ */
+export async function findPaymentByPaymentId(paymentId: string): Promise<PaymentRecord | null> {
+  const snap = await getDb().collection('payments').where('paymentId', '==', paymentId).limit(1).get();
+  return snap.empty ? null : (snap.docs[0].data() as PaymentRecord);
+}
+
+/**
+ * Finds a ledger entry for an order other than `orderId` that already claims
+ * `paymentId`, so one genuine payment can't be replayed to pay for a second order.
+ */
+export async function findConflictingPayment(paymentId: string, orderId: string): Promise<PaymentRecord | null> {
+  const snap = await getDb().collection('payments').where('paymentId', '==', paymentId).limit(2).get();
+  const conflict = snap.docs.find((doc) => doc.id !== orderId);
+  return conflict ? (conflict.data() as PaymentRecord) : null;
+}
+
+/**
+ * Moves a payment to `attempted` or `failed`. Unknown orders are ignored.
+ */
+export async function recordPaymentAttempt(orderId: string, status: 'attempted' | 'failed', fields: { paymentId?: string; failureReason?: string } = {}): Promise<void> {
+  await getDb().runTransaction(async (transaction) => {
+    const snap = await transaction.get(paymentRef(orderId));
+    if (!snap.exists) {
+      return;
+    }
+    const payment = snap.data() as PaymentRecord;
+    // A late failure notification must not undo a successful payment
+    if (payment.status === 'paid' || payment.status === 'partially_refunded' || payment.status === 'refunded') {
+      return;
+    }
+    transaction.update(snap.ref, transitionUpdate(payment.status, status, fields));
+  });
+}
+
+/**
+ * Applies a one-time (lifetime) Pro purchase to the profile.
+ * Recurring plans are applied by `lib/subscriptions.ts` instead.
+ */
+function applyProUpgrade(transaction: Transaction, userRef: DocumentReference, orderId: string, paymentId: string) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  transaction.update(userRef, {
+    isSubscribed: true,
+    plan: 'pro_lifetime',
+    currentPeriodEnd: FieldValue.delete(),
+    proOrderId: orderId,
+    proPaymentId: paymentId,
+    upgradedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Adds a purchased credit pack to the profile's `credits` balance.
+ */
+function applyCreditPack(transaction: Transaction, userRef: DocumentReference, credits: number, orderId: string, paymentId: string) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  transaction.update(userRef, {
+    credits: FieldValue.increment(credits),
+    lastCreditOrderId: orderId,
+    lastCreditPaymentId: paymentId,
+  });
+}
+
+/**
+ * Applies what a payment bought (Pro or a credit pack, plus any coupon bonus credits)
+ * to a profile.
+ */
+function applyPurchase(transaction: Transaction, userRef: DocumentReference, payment: PaymentRecord, paymentId: string) {
+  if (isCreditPackId(payment.plan)) {
+    applyCreditPack(transaction, userRef, CREDIT_PACKS[payment.plan].credits, payment.orderId, paymentId);
+  } else {
+    applyProUpgrade(transaction, userRef, payment.orderId, paymentId);
+  }
+  if (payment.coupon?.bonusCredits) {
+    transaction.update(userRef, {
+      credits: getFirebaseAdmin().firestore.FieldValue.increment(payment.coupon.bonusCredits),
+    });
+  }
+}
+
+/**
+ * Marks the payment as paid and, in the same transaction, upgrades its owner to Pro,
+ * adds the purchased credits or tops up their group's pool (or, for a gift, makes the
+ * gift redeemable), redeems
+ * the coupon used on the order and issues its invoice.
+ * Safe to call more than once for the same payment.
+ * @returns The uid of the upgraded user
+ * @throws PaymentStateError if the order is unknown or already refunded
+ * @throws CouponError if the order is free and its coupon ran out since it was created
+ */
+export async function completePayment(orderId: string, paymentId: string): Promise<string> {
+  const db = getDb();
+
+  return db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(paymentRef(orderId));
+    if (!snap.exists) {
+      throw new PaymentStateError(`Payment for order ${orderId} not found.`);
+    }
+
+    const payment = snap.data() as PaymentRecord;
+    if ((payment.status === 'paid' || payment.status === 'partially_refunded') && payment.paymentId === paymentId) {
+      return payment.userId; // Already applied
+    }
+
+    const userRef = db.collection('users').doc(payment.userId);
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new PaymentStateError(`User profile ${payment.userId} not found.`);
+    }
+    const groupSnap = !payment.gift && isGroupPlanId(payment.plan) ? await transaction.get(groupRef(payment.userId)) : null;
+
+    // Nothing was charged for a free order, so a coupon that ran out meanwhile can still refuse it
+    const redeemCoupon = payment.coupon
+      ? await prepareCouponRedemption(transaction, payment.coupon, payment.userId, orderId, { enforceLimits: payment.amount === 0 })
+      : undefined;
+    const issueInvoice = await prepareInvoice(transaction, payment, paymentId, userRef);
+
+    // Every read is done; only writes from here on
+    redeemCoupon?.();
+    issueInvoice();
+
+    transaction.update(snap.ref, transitionUpdate(payment.status, 'paid', {
+      paymentId,
+      paidAt: getFirebaseAdmin().firestore.FieldValue.serverTimestamp(),
+    }));
+    if (payment.gift) {
+      issueGift(transaction, payment.gift.code);
+    } else if (groupSnap && isGroupPlanId(payment.plan)) {
+      const owner = { userId: payment.userId, email: userDoc.data()?.email ?? null, displayName: userDoc.data()?.displayName ?? null };
+      applyGroupPlan(transaction, groupSnap, owner, GROUP_PLANS[payment.plan]);
+    } else {
+      applyPurchase(transaction, userRef, payment, paymentId);
+    }
+    return payment.userId;
+  });
+}
+
+/**
+ * Applies an issued gift to the recipient's account and records them on the gift and
+ * on its payment. The gifter is notified.
+ * @returns The redeemed gift
+ * @throws GiftError if the code is unknown, unpaid, already redeemed or revoked, or
+ *         cannot be applied to this account
+ */
+export async function redeemGift(code: string, recipientId: string): Promise<GiftRecord> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+
+  return db.runTransaction(async (transaction) => {
+    const giftSnap = await transaction.get(giftRef(code));
+    if (!giftSnap.exists) {
+      throw new GiftError('This gift code is not valid.', 404);
+    }
+
+    const gift = giftSnap.data() as GiftRecord;
+    if (gift.status === 'redeemed') {
+      throw new GiftError(gift.recipientId === recipientId ? 'You have already redeemed this gift.' : 'This gift has already been redeemed.', 409);
+    }
+    if (gift.status === 'revoked') {
+      throw new GiftError('This gift is no longer available.', 410);
+    }
+    if (gift.status !== 'issued') {
+      throw new GiftError('This gift has not been paid for yet.', 409);
+    }
+    if (gift.gifterId === recipientId) {
+      throw new GiftError('You bought this gift. Share the code with the person it is for.', 403);
+    }
+
+    const paymentSnap = await transaction.get(paymentRef(gift.orderId));
+    const payment = paymentSnap.data() as PaymentRecord | undefined;
+    if (!payment?.paymentId || payment.status !== 'paid') {
+      throw new GiftError('This gift is no longer available.', 410);
+    }
+
+    const userRef = db.collection('users').doc(recipientId);
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new GiftError('Your profile was not found. Please sign in again.', 404);
+    }
+    if (!isCreditPackId(gift.productId) && hasActivePro(userDoc.data())) {
+      throw new GiftError('You already have Pro, so this gift cannot be added to your account.', 409);
+    }
+
+    applyPurchase(transaction, userRef, payment, payment.paymentId);
+    transaction.update(giftSnap.ref, {
+      status: 'redeemed',
+      recipientId,
+      redeemedAt: FieldValue.serverTimestamp(),
+    });
+    transaction.update(paymentSnap.ref, {
+      'gift.recipientId': recipientId,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    notifyUser(transaction, gift.gifterId, {
+      type: 'gift',
+      title: 'Your gift was redeemed',
+      body: `The gift you sent to ${gift.recipientEmail} has been redeemed.`,
+    });
+
+    return { ...gift, status: 'redeemed', recipientId };
+  });
+}
+
+/**
+ * Records a renewal (or first) charge of a recurring subscription, which Razorpay
+ * creates without a prior order from us, and issues its invoice. Keyed by the
+ * charge's order ID; safe to call more than once for the same charge.
+ */
+export async function recordSubscriptionCharge(charge: {
+  orderId: string;
+  paymentId: string;
+  subscriptionId: string;
+  userId: string;
+  plan: PlanId;
+  amount: number;
+  currency: string;
+}): Promise<void> {
+  const db = getDb();
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+
+  await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(paymentRef(charge.orderId));
+    if (snap.exists) {
+      return; // Already recorded
+    }
+
+    const issueInvoice = await prepareInvoice(transaction, charge, charge.paymentId, db.collection('users').doc(charge.userId));
+    issueInvoice();
+
+    const now = Timestamp.now();
+    transaction.create(snap.ref, {
+      ...charge,
+      receipt: charge.subscriptionId,
+      gateway: 'razorpay',
+      status: 'paid',
+      statusHistory: [{ status: 'created', at: now }, { status: 'paid', at: now }],
+      paidAt: FieldValue.serverTimestamp(),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Upgrades a user for a captured payment whose order predates the ledger.
+ * Safe to call more than once for the same payment.
+ */
+export async function grantProAccess(userId: string, { orderId, paymentId }: { orderId: string; paymentId: string }): Promise<void> {
+  const userRef = getDb().collection('users').doc(userId);
+
+  await getDb().runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new Error(`User profile ${userId} not found.`);
+    }
+
+    const userData = userDoc.data();
+    if (userData?.isSubscribed === true && proPaymentIdOf(userData) === paymentId) {
+      return; // Already applied
+    }
+
+    applyProUpgrade(transaction, userRef, orderId, paymentId);
+  });
+}
+
+export type RefundEntitlementChange = 'pro_revoked' | 'credits_deducted' | 'gift_revoked' | 'pool_reduced' | 'none';
+
+export interface RefundResult {
+  userId: string;
+  change: RefundEntitlementChange;
+  fullyRefunded: boolean;
+}
+
+/**
+ * Records a refund against a payment and applies the refund policy to its owner:
+ *
+ * - A FULL refund takes back what the payment bought: Pro access (lifetime, or the
+ *   subscription the charge paid for) is revoked, and purchased credits are deducted
+ *   up to the unspent balance. For a group plan, its generations are taken out of the
+ *   group's pool, up to what is left unused.
+ * - A PARTIAL refund is a goodwill gesture and leaves access unchanged.
+ *
+ * For a gift, that is taken back from its recipient, or the gift is revoked if it has
+ * not been redeemed yet.
+ *
+ * The user is notified and the change is written to the audit log in the same
+ * transaction. A fully refunded subscription charge also cancels the subscription at
+ * Razorpay afterwards, so its next renewal doesn't bring Pro back. Idempotent per refund
+ * ID, so the admin action and the webhook for the same refund can both call it.
+ *
+ * `paymentAmount` is the captured amount reported by the gateway; it is only used for
+ * payments that predate the ledger, whose user comes from `userId`.
+ */
+export async function recordRefund(refund: {
+  orderId?: string;
+  userId: string;
+  paymentId: string;
+  refundId: string;
+  amount: number;
+  paymentAmount: number;
+  source: RefundSource;
+  actorId?: string;
+  reason?: string;
+}): Promise<RefundResult> {
+  const db = getDb();
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+  let cancelSubscriptionId: string | undefined;
+
+  const result = await db.runTransaction<RefundResult>(async (transaction) => {
+    cancelSubscriptionId = undefined; // The transaction may be retried
+    const paymentSnap = refund.orderId ? await transaction.get(paymentRef(refund.orderId)) : null;
+    const payment = paymentSnap?.exists ? (paymentSnap.data() as PaymentRecord) : null;
+    const userId = payment?.userId ?? refund.userId;
+    const userRef = db.collection('users').doc(userId);
+    const userDoc = await transaction.get(userRef);
+    const userData = userDoc.data();
+    // A gift's entitlement belongs to its recipient, and to nobody until it is redeemed
+    const giftSnap = payment?.gift ? await transaction.get(giftRef(payment.gift.code)) : null;
+    const holderId = payment?.gift ? payment.gift.recipientId : userId;
+    const holderRef = holderId ? db.collection('users').doc(holderId) : null;
+    const holderDoc = holderId === userId ? userDoc : holderRef ? await transaction.get(holderRef) : null;
+    const holderData = holderDoc?.data();
+    const groupSnap = payment && isGroupPlanId(payment.plan) ? await transaction.get(groupRef(userId)) : null;
+
+    const alreadyRecorded = payment
+      ? payment.refunds?.some((r) => r.refundId === refund.refundId)
+      : (userData?.proRefundId ?? userData?.razorpayRefundId) === refund.refundId;
+    if (alreadyRecorded) {
+      return { userId, change: 'none', fullyRefunded: payment?.status === 'refunded' };
+    }
+
+    const amountRefunded = (payment?.amountRefunded ?? 0) + refund.amount;
+    const fullyRefunded = amountRefunded >= (payment?.amount ?? refund.paymentAmount);
+    if (fullyRefunded && payment?.subscriptionId) {
+      cancelSubscriptionId = payment.subscriptionId;
+    }
+
+    if (payment) {
+      transaction.update(paymentSnap!.ref, transitionUpdate(payment.status, fullyRefunded ? 'refunded' : 'partially_refunded', {
+        refundId: refund.refundId,
+        amountRefunded,
+        refunds: FieldValue.arrayUnion({ refundId: refund.refundId, amount: refund.amount, source: refund.source, at: Timestamp.now() }),
+      }));
+    }
+
+    let change: RefundEntitlementChange = 'none';
+    if (fullyRefunded && giftSnap?.exists && giftSnap.data()?.status !== 'revoked') {
+      transaction.update(giftSnap.ref, { status: 'revoked' });
+      change = 'gift_revoked';
+    }
+    if (fullyRefunded && holderRef && holderDoc?.exists) {
+      const paidForCurrentPlan = holderData?.isSubscribed === true && (
+        (payment?.subscriptionId && holderData?.razorpaySubscriptionId === payment.subscriptionId) ||
+        proPaymentIdOf(holderData) === refund.paymentId
+      );
+
+      if (payment && isGroupPlanId(payment.plan)) {
+        const group = groupSnap?.data() as GroupRecord | undefined;
+        const reduced = group ? Math.min(GROUP_PLANS[payment.plan].generations, Math.max(group.poolSize - group.poolUsed, 0)) : 0;
+        if (reduced > 0) {
+          transaction.update(groupSnap!.ref, { poolSize: FieldValue.increment(-reduced) });
+          change = 'pool_reduced';
+        }
+      } else if (payment && isCreditPackId(payment.plan)) {
+        const purchased = CREDIT_PACKS[payment.plan].credits + (payment.coupon?.bonusCredits ?? 0);
+        const deducted = Math.min(purchased, Math.max(holderData?.credits ?? 0, 0));
+        if (deducted > 0) {
+          transaction.update(holderRef, { credits: FieldValue.increment(-deducted) });
+          change = 'credits_deducted';
+        }
+      } else if (paidForCurrentPlan) {
+        transaction.update(holderRef, {
+          isSubscribed: false,
+          proRefundId: refund.refundId,
+          downgradedAt: FieldValue.serverTimestamp(),
+          ...(payment?.subscriptionId && { subscriptionStatus: 'cancelled', cancelAtPeriodEnd: false }),
+        });
+        change = 'pro_revoked';
+      }
+    }
+
+    if (userDoc.exists) {
+      const amount = `${payment?.currency ?? 'INR'} ${(refund.amount / 100).toFixed(2)}`;
+      // Whatever a gift's recipient loses, for the gifter the gift is cancelled
+      const payerChange = payment?.gift && change !== 'none' ? 'gift_revoked' : change;
+      notifyUser(transaction, userId, {
+        type: 'refund',
+        title: 'Refund processed',
+        body: payerChange === 'pro_revoked'
+          ? `We refunded ${amount}. Your Pro access has ended.`
+          : payerChange === 'credits_deducted'
+            ? `We refunded ${amount}. The credits from this purchase were removed.`
+            : payerChange === 'pool_reduced'
+              ? `We refunded ${amount}. The unused generations from this purchase were removed from your group.`
+              : payerChange === 'gift_revoked'
+                ? `We refunded ${amount}. The gift from this purchase was cancelled.`
+                : `We refunded ${amount} to your original payment method.`,
+      });
+    }
+    if (holderId && holderId !== userId && holderDoc?.exists && change !== 'none' && change !== 'gift_revoked') {
+      notifyUser(transaction, holderId, {
+        type: 'gift',
+        title: 'A gift was refunded',
+        body: 'The person who gave you a gift asked for a refund, so it has been removed from your account.',
+      });
+    }
+
+    writeAuditLog(transaction, {
+      action: 'payment.refunded',
+      userId,
+      source: refund.source,
+      actorId: refund.actorId,
+      details: {
+        orderId: refund.orderId ?? null,
+        paymentId: refund.paymentId,
+        refundId: refund.refundId,
+        amount: refund.amount,
+        amountRefunded,
+        fullyRefunded,
+        change,
+        reason: refund.reason ?? null,
+      },
+    });
+
+    return { userId, change, fullyRefunded };
+  });
+
+  if (cancelSubscriptionId) {
+    await cancelRefundedSubscription(cancelSubscriptionId);
+  }
+  return result;
+}
+
+/**
+ * Ends a subscription whose charge was fully refunded (always Razorpay). Best effort:
+ * the refund is already recorded, and access was revoked with it.
+ */
+async function cancelRefundedSubscription(subscriptionId: string): Promise<void> {
+  try {
+    await getRazorpayClient().subscriptions.cancel(subscriptionId, false);
+    console.log(`✅ Cancelled subscription ${subscriptionId} after a full refund`);
+  } catch (error: any) {
+    console.error(`❌ Could not cancel subscription ${subscriptionId} after refund:`, error.error?.description || error.message);
+  }
+}
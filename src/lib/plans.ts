@@ -0,0 +1,169 @@
+/**
+ * Plans that can be purchased. Shared by the subscribe page and the server.
+ * Prices live in the server-side catalog in `lib/pricing.ts`, so the server always
+ * charges its own price, never one sent by the client.
+ */
+
+export type PlanId = 'pro_lifetime' | 'pro_monthly' | 'pro_yearly';
+
+export type BillingInterval = 'monthly' | 'yearly';
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  description: string;
+  interval: BillingInterval | null; // null for one-time purchases
+}
+
+export const PLANS: Record<PlanId, Plan> = {
+  pro_monthly: {
+    id: 'pro_monthly',
+    name: 'Pro Monthly',
+    description: 'Pro Plan - Billed Monthly',
+    interval: 'monthly',
+  },
+  pro_yearly: {
+    id: 'pro_yearly',
+    name: 'Pro Yearly',
+    description: 'Pro Plan - Billed Yearly',
+    interval: 'yearly',
+  },
+  pro_lifetime: {
+    id: 'pro_lifetime',
+    name: 'Pro Lifetime',
+    description: 'Pro Plan - Lifetime Access',
+    interval: null,
+  },
+};
+
+export function isRecurringPlan(plan: Plan): boolean {
+  return plan.interval !== null;
+}
+
+export type CreditPackId = 'credits_20' | 'credits_50';
+
+/**
+ * A one-time purchase of extra generations, used up after the free ones.
+ * Credits never expire.
+ */
+export interface CreditPack {
+  id: CreditPackId;
+  name: string;
+  description: string;
+  credits: number;
+}
+
+export const CREDIT_PACKS: Record<CreditPackId, CreditPack> = {
+  credits_20: {
+    id: 'credits_20',
+    name: '20 Pages',
+    description: 'Credit Pack - 20 Generations',
+    credits: 20,
+  },
+  credits_50: {
+    id: 'credits_50',
+    name: '50 Pages',
+    description: 'Credit Pack - 50 Generations',
+    credits: 50,
+  },
+};
+
+export type GroupPlanId = 'group_family' | 'group_classroom';
+
+export type GroupType = 'family' | 'classroom';
+
+/**
+ * A one-time purchase of a pool of generations shared by a family or classroom.
+ * The buyer owns the group and invites members up to `seats` (the owner included).
+ * Buying again tops up the pool.
+ */
+export interface GroupPlan {
+  id: GroupPlanId;
+  name: string;
+  description: string;
+  type: GroupType;
+  seats: number;
+  generations: number;
+}
+
+export const GROUP_PLANS: Record<GroupPlanId, GroupPlan> = {
+  group_family: {
+    id: 'group_family',
+    name: 'Family',
+    description: 'Family Plan - 5 Members, 200 Shared Generations',
+    type: 'family',
+    seats: 5,
+    generations: 200,
+  },
+  group_classroom: {
+    id: 'group_classroom',
+    name: 'Classroom',
+    description: 'Classroom Plan - 40 Members, 1000 Shared Generations',
+    type: 'classroom',
+    seats: 40,
+    generations: 1000,
+  },
+};
+
+/**
+ * Anything that can be bought with a one-off order (and so recorded in the payments ledger).
+ */
+export type ProductId = PlanId | CreditPackId | GroupPlanId;
+
+export type Product = Plan | CreditPack | GroupPlan;
+
+export function isCreditPackId(productId: string): productId is CreditPackId {
+  return productId in CREDIT_PACKS;
+}
+
+export function isGroupPlanId(productId: string): productId is GroupPlanId {
+  return productId in GROUP_PLANS;
+}
+
+export function getProduct(productId: ProductId): Product | undefined {
+  if (isCreditPackId(productId)) {
+    return CREDIT_PACKS[productId];
+  }
+  return isGroupPlanId(productId) ? GROUP_PLANS[productId] : PLANS[productId];
+}
+
+export type SubscriptionStatus = 'active' | 'cancelled' | 'halted' | 'expired';
+
+/**
+ * Renewal charges can land a little after the period ends; access is kept
+ * for this long past `currentPeriodEnd` before the plan is treated as lapsed.
+ */
+export const SUBSCRIPTION_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long a free Pro trial lasts. Each account can start one, at signup or later.
+ */
+export const TRIAL_DURATION_DAYS = 7;
+export const TRIAL_DURATION_MS = TRIAL_DURATION_DAYS * 24 * 60 * 60 * 1000;
+
+interface ProfileWithPlan {
+  isSubscribed?: boolean;
+  currentPeriodEnd?: { toMillis(): number } | null;
+  trialEndsAt?: { toMillis(): number } | null;
+}
+
+/**
+ * Whether a user profile currently has Pro access.
+ * Lifetime purchases never expire; recurring plans lapse after `currentPeriodEnd`.
+ */
+export function hasActivePro(profile: ProfileWithPlan | null | undefined, now = Date.now()): boolean {
+  if (profile?.isSubscribed !== true) {
+    return false;
+  }
+  if (!profile.currentPeriodEnd) {
+    return true;
+  }
+  return profile.currentPeriodEnd.toMillis() + SUBSCRIPTION_GRACE_PERIOD_MS > now;
+}
+
+/**
+ * Whether a user profile is in a free Pro trial that hasn't ended yet.
+ */
+export function isOnTrial(profile: ProfileWithPlan | null | undefined, now = Date.now()): boolean {
+  return !!profile?.trialEndsAt && profile.trialEndsAt.toMillis() > now;
+}
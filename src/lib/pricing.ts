@@ -0,0 +1,179 @@
+// lib/pricing.ts
+import 'server-only';
+import { selectGatewayForCountry } from '@/lib/payment-gateways';
+import { discountedAmount } from '@/lib/coupons';
+import { getProduct, isRecurringPlan, type ProductId } from '@/lib/plans';
+
+/**
+ * Pricing catalog
+ *
+ * What every product costs, per currency, and the tax charged on it. `lib/plans.ts` says
+ * what can be bought; this module says how much it costs, and is only ever read on the
+ * server: the subscribe page is rendered from `getPriceList` and orders are created from
+ * `resolvePrice`, both resolved from the same country, so the price shown is the price
+ * charged. Amounts are in the currency's smallest unit (paise, cents).
+ *
+ * Customers checking out with Razorpay (India, or anywhere Stripe isn't configured) pay
+ * in INR; everyone else pays in their local currency where we have one, or USD.
+ * Recurring plans are Razorpay Subscriptions with fixed INR amounts, so they are INR
+ * everywhere.
+ */
+
+export type Currency = 'INR' | 'USD' | 'EUR' | 'GBP';
+
+export interface TaxRule {
+  name: string; // As printed on the invoice: GST, VAT...
+  rate: number; // Percent
+  // Whether catalog prices already include the tax (as GST and VAT do) or it is added at checkout
+  inclusive: boolean;
+}
+
+/**
+ * A product's price for one customer.
+ */
+export interface ProductPrice {
+  productId: ProductId;
+  currency: Currency;
+  listPrice: number; // Catalog price, before tax when the tax is not inclusive
+  amount: number; // What is charged, tax included
+  tax: TaxRule;
+}
+
+interface PriceBook {
+  tax: TaxRule;
+  prices: Partial<Record<ProductId, number>>;
+}
+
+export const DEFAULT_CURRENCY: Currency = 'INR';
+
+const NO_TAX: TaxRule = { name: 'Tax', rate: 0, inclusive: false };
+
+const PRICE_BOOKS: Record<Currency, PriceBook> = {
+  INR: {
+    tax: { name: 'GST', rate: Number(process.env.INVOICE_GST_RATE ?? 18), inclusive: true },
+    prices: {
+      pro_monthly: 29 * 100,
+      pro_yearly: 249 * 100,
+      pro_lifetime: 10 * 100,
+      credits_20: 19 * 100,
+      credits_50: 39 * 100,
+      group_family: 149 * 100,
+      group_classroom: 599 * 100,
+    },
+  },
+  USD: {
+    // US sales tax depends on the state and is not collected
+    tax: NO_TAX,
+    prices: {
+      pro_lifetime: 199,
+      credits_20: 199,
+      credits_50: 399,
+      group_family: 999,
+      group_classroom: 2999,
+    },
+  },
+  EUR: {
+    tax: { name: 'VAT', rate: 20, inclusive: true },
+    prices: {
+      pro_lifetime: 199,
+      credits_20: 199,
+      credits_50: 399,
+      group_family: 999,
+      group_classroom: 2999,
+    },
+  },
+  GBP: {
+    tax: { name: 'VAT', rate: 20, inclusive: true },
+    prices: {
+      pro_lifetime: 179,
+      credits_20: 179,
+      credits_50: 349,
+      group_family: 899,
+      group_classroom: 2599,
+    },
+  },
+};
+
+const EUROZONE = ['AT', 'BE', 'CY', 'DE', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PT', 'SI', 'SK'];
+
+const COUNTRY_CURRENCIES: Record<string, Currency> = {
+  IN: 'INR',
+  GB: 'GBP',
+  ...Object.fromEntries(EUROZONE.map((country) => [country, 'EUR' as const])),
+};
+
+// VAT is charged at the customer's own country's rate; the price book's rule covers the rest
+const COUNTRY_TAX_RATES: Record<string, number> = {
+  AT: 20, BE: 21, CY: 19, DE: 19, EE: 22, ES: 21, FI: 24, FR: 20, GR: 24, HR: 25,
+  IE: 23, IT: 22, LT: 21, LU: 17, LV: 21, MT: 18, NL: 21, PT: 23, SI: 22, SK: 20,
+};
+
+export function isCurrency(value: string): value is Currency {
+  return value in PRICE_BOOKS;
+}
+
+/**
+ * The currency a customer in `country` pays in.
+ */
+export function currencyForCountry(country: string | null): Currency {
+  if (selectGatewayForCountry(country) === 'razorpay') {
+    return 'INR';
+  }
+  return (country && COUNTRY_CURRENCIES[country.toUpperCase()]) || 'USD';
+}
+
+function taxRuleFor(currency: Currency, country: string | null): TaxRule {
+  const tax = PRICE_BOOKS[currency].tax;
+  const countryRate = country ? COUNTRY_TAX_RATES[country.toUpperCase()] : undefined;
+  return countryRate !== undefined && currency !== 'INR' ? { ...tax, rate: countryRate } : tax;
+}
+
+/**
+ * What `listPrice` comes to with tax added, if the tax is not already included.
+ */
+export function withTax(listPrice: number, tax: TaxRule): number {
+  return tax.inclusive ? listPrice : listPrice + Math.round((listPrice * tax.rate) / 100);
+}
+
+/**
+ * What to charge for `price` after a coupon's discount, which comes off the list price
+ * before any tax is added.
+ */
+export function chargedAmount(price: ProductPrice, discount = 0): number {
+  return withTax(discountedAmount(price.listPrice, discount), price.tax);
+}
+
+/**
+ * A product's price in a given currency, or null if it is not sold in that currency.
+ */
+export function priceInCurrency(productId: ProductId, currency: string, country: string | null = null): ProductPrice | null {
+  const listPrice = isCurrency(currency) ? PRICE_BOOKS[currency].prices[productId] : undefined;
+  if (listPrice === undefined) {
+    return null;
+  }
+  const tax = taxRuleFor(currency as Currency, country);
+  return { productId, currency: currency as Currency, listPrice, amount: withTax(listPrice, tax), tax };
+}
+
+/**
+ * The price a customer in `country` pays for a product.
+ */
+export function resolvePrice(productId: ProductId, country: string | null): ProductPrice {
+  const product = getProduct(productId);
+  const currency = product && 'interval' in product && isRecurringPlan(product) ? DEFAULT_CURRENCY : currencyForCountry(country);
+  // Anything missing from a local price book is sold in INR
+  const price = priceInCurrency(productId, currency, country) ?? priceInCurrency(productId, DEFAULT_CURRENCY);
+  if (!price) {
+    throw new Error(`No price for ${productId}.`);
+  }
+  return price;
+}
+
+/**
+ * Every product's price for a customer in `country`.
+ */
+export function getPriceList(country: string | null): Record<ProductId, ProductPrice> {
+  const productIds = Object.keys(PRICE_BOOKS[DEFAULT_CURRENCY].prices) as ProductId[];
+  return Object.fromEntries(productIds.map((productId) => [productId, resolvePrice(productId, country)])) as Record<ProductId, ProductPrice>;
+}
+
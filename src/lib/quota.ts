@@ -0,0 +1,197 @@
+// lib/quota.ts
+import type { Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { getEntitlements, type EntitlementErrorCode, type GenerationSource, type GroupPool, type Resolution } from '@/lib/entitlements';
+import { groupMemberRef, groupRef } from '@/lib/groups';
+
+/**
+ * Generation quota, enforced with Firestore transactions.
+ *
+ * A generation is RESERVED (count incremented, or a credit spent) atomically with the
+ * creation of its job, before the provider is called, so parallel requests can never
+ * exceed the limit. The reservation is then COMMITTED on success or RELEASED (count or
+ * credit refunded) on failure.
+ *
+ * What pays for a generation is decided by `getEntitlements` (see `lib/entitlements.ts`):
+ * Pro users, and users in their free Pro trial, are never charged. Members of a family or
+ * classroom group draw from the group's shared pool while it lasts. Everyone else uses
+ * their free generations first, then the `credits` balance (bought as credit packs, or
+ * earned as coupon and referral bonuses).
+ * Every step is recorded in `users/{userId}/usageEvents` so support can audit counts.
+ */
+
+export type QuotaReservationStatus = 'reserved' | 'committed' | 'released';
+
+export type UsageEventType = QuotaReservationStatus;
+
+/**
+ * What paid for a generation.
+ */
+export type QuotaSource = GenerationSource;
+
+/**
+ * Stored on the job document as `quota`.
+ * `counted` is false for Pro and trial users, whose generations don't consume anything.
+ * Reservations made before credit packs existed have no `source` and were free.
+ * `groupId` is set when the group's pool paid.
+ */
+export interface QuotaReservation {
+  status: QuotaReservationStatus;
+  counted: boolean;
+  source?: QuotaSource;
+  groupId?: string;
+}
+
+/**
+ * Thrown when a generation cannot be reserved.
+ * Carries the HTTP status the route should respond with, and the reason as a code.
+ */
+export class QuotaError extends Error {
+  readonly status: number;
+  readonly code: EntitlementErrorCode;
+
+  constructor(message: string, status: number, code: EntitlementErrorCode) {
+    super(message);
+    this.name = 'QuotaError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function usageEventsCollection(userId: string) {
+  return getDb().collection(`users/${userId}/usageEvents`);
+}
+
+function recordUsageEvent(transaction: Transaction, userId: string, jobId: string, type: UsageEventType, reservation: Pick<QuotaReservation, 'counted' | 'source' | 'groupId'>) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  transaction.create(usageEventsCollection(userId).doc(), {
+    type,
+    jobId,
+    counted: reservation.counted,
+    source: reservation.source ?? 'free',
+    ...(reservation.groupId && { groupId: reservation.groupId }),
+    createdAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * The profile field a reservation was charged to, or null if nothing was charged to
+ * the profile (Pro, or the group's pool).
+ */
+function chargedField(reservation: Pick<QuotaReservation, 'counted' | 'source'>): 'generationCount' | 'credits' | null {
+  if (!reservation.counted || reservation.source === 'group') {
+    return null;
+  }
+  return reservation.source === 'credits' ? 'credits' : 'generationCount';
+}
+
+/**
+ * Adds `delta` generations to a group's pool usage and, while they are still a member,
+ * to the member's own count.
+ */
+function chargeGroupPool(transaction: Transaction, groupId: string, userId: string, delta: number, isMember: boolean) {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  transaction.update(groupRef(groupId), { poolUsed: FieldValue.increment(delta) });
+  if (isMember) {
+    transaction.update(groupMemberRef(groupId, userId), { generationsUsed: FieldValue.increment(delta) });
+  }
+}
+
+/**
+ * Reserves one generation for the user inside the caller's transaction.
+ * Performs its reads first, so the caller may only WRITE after calling this.
+ * @throws QuotaError if the profile is missing, the resolution isn't included in the user's
+ *         plan, or the free limit is reached and no credits or group pool are left
+ */
+export async function reserveGeneration(transaction: Transaction, userId: string, jobId: string, resolution: Resolution): Promise<QuotaReservation> {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const userDocRef = getDb().collection('users').doc(userId);
+  const userDoc = await transaction.get(userDocRef);
+
+  if (!userDoc.exists) {
+    throw new QuotaError('User profile not found.', 404, 'profile_not_found');
+  }
+
+  const userData = userDoc.data();
+  const groupId = userData?.groupId as string | undefined;
+  let entitlements = getEntitlements(userData, { userId });
+  // Only a member who would draw from the pool needs the group read, to check it isn't empty
+  if (groupId && entitlements.nextSource === 'group') {
+    const groupSnap = await transaction.get(groupRef(groupId));
+    entitlements = getEntitlements(userData, { userId, group: (groupSnap.data() as GroupPool | undefined) ?? null });
+  }
+
+  if (!entitlements.resolutions.includes(resolution)) {
+    throw new QuotaError('High resolution pages are a Pro feature. Please upgrade to Pro.', 403, 'resolution_not_allowed');
+  }
+  const source = entitlements.nextSource;
+  if (!source) {
+    throw new QuotaError('Free generation limit reached. Please upgrade to Pro or buy a credit pack.', 403, 'limit_reached');
+  }
+
+  const reservation: QuotaReservation = {
+    status: 'reserved',
+    counted: source !== 'pro' && source !== 'trial',
+    source,
+    ...(source === 'group' && { groupId }),
+  };
+  if (reservation.groupId) {
+    chargeGroupPool(transaction, reservation.groupId, userId, 1, true);
+  }
+  const field = chargedField(reservation);
+  if (field) {
+    transaction.update(userDocRef, {
+      // Free generations count up to the limit; credits count down to zero
+      [field]: FieldValue.increment(field === 'credits' ? -1 : 1),
+    });
+  }
+
+  recordUsageEvent(transaction, userId, jobId, 'reserved', reservation);
+  return reservation;
+}
+
+/**
+ * Marks a reservation as consumed inside the caller's transaction.
+ * Must be called with the reservation read from the job in the same transaction.
+ */
+export function commitGeneration(transaction: Transaction, userId: string, jobId: string, reservation: QuotaReservation): QuotaReservation {
+  recordUsageEvent(transaction, userId, jobId, 'committed', reservation);
+  return { ...reservation, status: 'committed' };
+}
+
+/**
+ * Refunds the reservation held by a job that did not produce an image.
+ * Idempotent: a reservation that was already committed or released is left alone.
+ */
+export async function releaseGeneration(userId: string, jobId: string): Promise<void> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const userDocRef = db.collection('users').doc(userId);
+  const jobRef = db.collection(`users/${userId}/generationJobs`).doc(jobId);
+
+  await db.runTransaction(async (transaction) => {
+    const jobSnap = await transaction.get(jobRef);
+    const reservation = jobSnap.data()?.quota as QuotaReservation | undefined;
+
+    if (!reservation || reservation.status !== 'reserved') {
+      return;
+    }
+    // The member may have left the group since; the pool still gets its generation back
+    const memberSnap = reservation.groupId ? await transaction.get(groupMemberRef(reservation.groupId, userId)) : null;
+
+    const field = chargedField(reservation);
+    if (field) {
+      transaction.update(userDocRef, {
+        [field]: FieldValue.increment(field === 'credits' ? 1 : -1),
+      });
+    }
+    if (reservation.groupId) {
+      chargeGroupPool(transaction, reservation.groupId, userId, -1, !!memberSnap?.exists);
+    }
+
+    transaction.update(jobRef, {
+      'quota.status': 'released',
+    });
+    recordUsageEvent(transaction, userId, jobId, 'released', reservation);
+  });
+}
@@ -0,0 +1,164 @@
+// lib/razorpay-stub.ts
+import crypto from 'crypto';
+import type { RazorpayClient } from '@/lib/razorpay';
+
+/**
+ * In-memory stand-in for the Razorpay API, enabled with RAZORPAY_MODE=stub.
+ *
+ * Implements only the calls this app makes, with the same response shapes, so
+ * checkout, subscriptions and refunds can be exercised locally without keys or
+ * network access. State lives for the lifetime of the server process.
+ */
+
+const orders = new Map<string, any>();
+const payments = new Map<string, any>();
+const subscriptions = new Map<string, any>();
+
+const INTERVAL_SECONDS: Record<string, number> = {
+  monthly: 30 * 24 * 60 * 60,
+  yearly: 365 * 24 * 60 * 60,
+};
+
+function stubId(prefix: string) {
+  return `${prefix}_stub${crypto.randomBytes(7).toString('hex')}`;
+}
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function notFound(kind: string, id: string): never {
+  throw { statusCode: 400, error: { code: 'BAD_REQUEST_ERROR', description: `The ${kind} ${id} does not exist` } };
+}
+
+/**
+ * Simulates the customer completing checkout: records a captured payment against
+ * the order (or the subscription's first invoice) and returns its ID.
+ */
+export function capturePaymentStub({ orderId, subscriptionId }: { orderId?: string; subscriptionId?: string }): string {
+  const paymentId = stubId('pay');
+  const order = orderId ? orders.get(orderId) : null;
+  const subscription = subscriptionId ? subscriptions.get(subscriptionId) : null;
+
+  payments.set(paymentId, {
+    id: paymentId,
+    entity: 'payment',
+    amount: order?.amount ?? 0,
+    currency: order?.currency ?? 'INR',
+    status: 'captured',
+    order_id: orderId ?? null,
+    invoice_id: subscription ? stubId('inv') : null,
+    notes: order?.notes ?? subscription?.notes ?? {},
+    amount_refunded: 0,
+    created_at: nowSeconds(),
+  });
+
+  if (order) {
+    order.status = 'paid';
+    order.amount_paid = order.amount;
+    order.amount_due = 0;
+  }
+  if (subscription) {
+    const start = nowSeconds();
+    subscription.status = 'active';
+    subscription.current_start = start;
+    subscription.current_end = start + (INTERVAL_SECONDS[subscription.stub_interval] ?? INTERVAL_SECONDS.monthly);
+    subscription.paid_count += 1;
+  }
+
+  return paymentId;
+}
+
+export function createRazorpayStub(): RazorpayClient {
+  const stub = {
+    orders: {
+      async create(params: any) {
+        const order = {
+          id: stubId('order'),
+          entity: 'order',
+          amount: params.amount,
+          amount_paid: 0,
+          amount_due: params.amount,
+          currency: params.currency,
+          receipt: params.receipt,
+          status: 'created',
+          notes: params.notes ?? {},
+          created_at: nowSeconds(),
+        };
+        orders.set(order.id, order);
+        return order;
+      },
+      async fetch(orderId: string) {
+        return orders.get(orderId) ?? notFound('order', orderId);
+      },
+    },
+    payments: {
+      async fetch(paymentId: string) {
+        return payments.get(paymentId) ?? notFound('payment', paymentId);
+      },
+      async refund(paymentId: string, params: { amount?: number; notes?: Record<string, any> } = {}) {
+        const payment = payments.get(paymentId) ?? notFound('payment', paymentId);
+        const amount = params.amount ?? payment.amount - payment.amount_refunded;
+
+        if (payment.status !== 'captured' && payment.status !== 'refunded') {
+          throw { statusCode: 400, error: { code: 'BAD_REQUEST_ERROR', description: 'The payment has not been captured' } };
+        }
+        if (amount <= 0 || payment.amount_refunded + amount > payment.amount) {
+          throw { statusCode: 400, error: { code: 'BAD_REQUEST_ERROR', description: 'The refund amount provided is greater than amount captured' } };
+        }
+
+        payment.amount_refunded += amount;
+        payment.refund_status = payment.amount_refunded === payment.amount ? 'full' : 'partial';
+        if (payment.refund_status === 'full') {
+          payment.status = 'refunded';
+        }
+
+        return {
+          id: stubId('rfnd'),
+          entity: 'refund',
+          amount,
+          currency: payment.currency,
+          payment_id: paymentId,
+          notes: params.notes ?? {},
+          status: 'processed',
+          created_at: nowSeconds(),
+        };
+      },
+    },
+    subscriptions: {
+      async create(params: any) {
+        const subscription = {
+          id: stubId('sub'),
+          entity: 'subscription',
+          plan_id: params.plan_id,
+          total_count: params.total_count,
+          paid_count: 0,
+          status: 'created',
+          current_start: null,
+          current_end: null,
+          notes: params.notes ?? {},
+          created_at: nowSeconds(),
+          // Stub-only bookkeeping; plan IDs look like `plan_stub_pro_monthly`
+          stub_interval: String(params.plan_id).includes('yearly') ? 'yearly' : 'monthly',
+        };
+        subscriptions.set(subscription.id, subscription);
+        return subscription;
+      },
+      async fetch(subscriptionId: string) {
+        return subscriptions.get(subscriptionId) ?? notFound('subscription', subscriptionId);
+      },
+      async cancel(subscriptionId: string, cancelAtCycleEnd?: boolean | number) {
+        const subscription = subscriptions.get(subscriptionId) ?? notFound('subscription', subscriptionId);
+        if (cancelAtCycleEnd) {
+          subscription.has_scheduled_changes = true;
+        } else {
+          subscription.status = 'cancelled';
+          subscription.ended_at = nowSeconds();
+        }
+        return subscription;
+      },
+    },
+  };
+
+  return stub as unknown as RazorpayClient;
+}
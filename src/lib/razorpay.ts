@@ -0,0 +1,135 @@
+// lib/razorpay.ts
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import type { PlanId } from '@/lib/plans';
+import { capturePaymentStub, createRazorpayStub } from '@/lib/razorpay-stub';
+
+/**
+ * Razorpay helpers shared by server actions and API routes.
+ *
+ * Set RAZORPAY_MODE=stub to swap the real API for the in-memory stub in
+ * `razorpay-stub.ts` (local development, no keys required).
+ */
+
+export type RazorpayClient = Pick<Razorpay, 'orders' | 'payments' | 'subscriptions'>;
+
+const STUB_KEY_SECRET = 'rzp_stub_secret';
+
+let stubClient: RazorpayClient | null = null;
+
+export function isRazorpayStubMode(): boolean {
+  return process.env.RAZORPAY_MODE === 'stub';
+}
+
+/**
+ * The secret used to sign checkout responses.
+ */
+export function getRazorpayKeySecret(): string | undefined {
+  return process.env.RAZORPAY_KEY_SECRET || (isRazorpayStubMode() ? STUB_KEY_SECRET : undefined);
+}
+
+/**
+ * Creates an authenticated Razorpay API client (or returns the stub).
+ * @throws Error if the API keys are not configured on the server
+ */
+export function getRazorpayClient(): RazorpayClient {
+  if (isRazorpayStubMode()) {
+    stubClient ??= createRazorpayStub();
+    return stubClient;
+  }
+
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+
+  if (!keyId || !keySecret) {
+    throw new Error('Razorpay API keys are not configured on the server.');
+  }
+
+  return new Razorpay({
+    key_id: keyId,
+    key_secret: keySecret,
+  });
+}
+
+/**
+ * Maps a recurring plan to the Razorpay plan configured in the dashboard.
+ * @throws Error if the plan ID is not configured
+ */
+export function getRazorpayPlanId(planId: PlanId): string {
+  if (isRazorpayStubMode()) {
+    return `plan_stub_${planId}`;
+  }
+
+  const envKey = {
+    pro_monthly: 'RAZORPAY_PLAN_ID_MONTHLY',
+    pro_yearly: 'RAZORPAY_PLAN_ID_YEARLY',
+  }[planId as string];
+  const razorpayPlanId = envKey ? process.env[envKey] : undefined;
+
+  if (!razorpayPlanId) {
+    throw new Error(`Razorpay plan for ${planId} is not configured on the server.`);
+  }
+  return razorpayPlanId;
+}
+
+function signCheckoutPayload(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Verifies the signature Razorpay Checkout returns to the browser.
+ * Orders sign `order_id|payment_id`; subscriptions sign `payment_id|subscription_id`.
+ */
+export function verifyCheckoutSignature(payload: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signCheckoutPayload(payload, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * In stub mode there is no Razorpay modal, so the server completes "checkout"
+ * itself and hands back the same fields the real modal would.
+ */
+export function createStubCheckoutResponse({ orderId, subscriptionId }: { orderId?: string; subscriptionId?: string }): Record<string, string> {
+  const paymentId = capturePaymentStub({ orderId, subscriptionId });
+  const secret = getRazorpayKeySecret()!;
+
+  return orderId
+    ? {
+        razorpay_order_id: orderId,
+        razorpay_payment_id: paymentId,
+        razorpay_signature: signCheckoutPayload(`${orderId}|${paymentId}`, secret),
+      }
+    : {
+        razorpay_subscription_id: subscriptionId!,
+        razorpay_payment_id: paymentId,
+        razorpay_signature: signCheckoutPayload(`${paymentId}|${subscriptionId}`, secret),
+      };
+}
+
+/**
+ * Verifies the `X-Razorpay-Signature` header against the raw request body.
+ * The body must be the exact bytes Razorpay sent, not re-serialised JSON.
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string, secret: string): boolean {
+  try {
+    return Razorpay.validateWebhookSignature(rawBody, signature, secret);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves the Firebase uid that paid for an order, from the `notes.firebase_uid` that
+ * createCheckout tags the order with. Payment notes are never used: the payer can set
+ * them in the Checkout options and so send the payment to any account.
+ */
+export async function resolveOrderUserId(orderId: string | null | undefined): Promise<string | null> {
+  if (!orderId) {
+    return null;
+  }
+
+  const order = await getRazorpayClient().orders.fetch(orderId);
+  const uid = (order.notes as Record<string, any> | undefined)?.firebase_uid;
+  return typeof uid === 'string' ? uid : null;
+}
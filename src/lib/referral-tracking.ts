@@ -0,0 +1,52 @@
+// lib/referral-tracking.ts
+
+/**
+ * Browser-side state for referrals, kept in localStorage: the referral code a visitor
+ * arrived with (so it survives until they finish signing up) and a random per-browser
+ * device ID used by the referral fraud guards.
+ */
+
+const REFERRAL_CODE_KEY = 'referralCode';
+const DEVICE_ID_KEY = 'deviceId';
+
+function storage(): Storage | null {
+  try {
+    return typeof window === 'undefined' ? null : window.localStorage;
+  } catch {
+    return null; // Blocked by privacy settings
+  }
+}
+
+export function getDeviceId(): string | null {
+  const store = storage();
+  if (!store) {
+    return null;
+  }
+
+  let deviceId = store.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    store.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Remembers the `?ref=` code of the current URL, if any.
+ */
+export function rememberReferralCode() {
+  const code = new URLSearchParams(window.location.search).get('ref');
+  if (code) {
+    storage()?.setItem(REFERRAL_CODE_KEY, code);
+  }
+}
+
+/**
+ * Returns the remembered referral code and forgets it, so it is only used once.
+ */
+export function takeReferralCode(): string | null {
+  const store = storage();
+  const code = store?.getItem(REFERRAL_CODE_KEY) ?? null;
+  store?.removeItem(REFERRAL_CODE_KEY);
+  return code;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { attributeReferral, ensureReferralCode } from '@/lib/referrals';
+import { readDoc, seedDoc, Timestamp } from '@/test/fake-firebase-admin';
+import { seedUser } from '@/test/payments';
+
+/**
+ * Signs up `count` referees through the code, each from its own device and webmail address.
+ */
+async function referMany(code: string, count: number, prefix = 'friend') {
+  const statuses = [];
+  for (let i = 0; i < count; i++) {
+    const refereeId = `${prefix}${i}`;
+    seedUser(refereeId);
+    statuses.push(await attributeReferral({ refereeId, refereeEmail: `${refereeId}@gmail.com`, code, deviceId: `device-${refereeId}` }));
+  }
+  return statuses;
+}
+
+describe('attributeReferral', () => {
+  it('limits how many referees a referrer gets per day, whatever devices they use', async () => {
+    seedUser('alice');
+    const code = await ensureReferralCode('alice', 'device-alice');
+
+    const statuses = await referMany(code, 6);
+
+    expect(statuses).toEqual(['pending', 'pending', 'pending', 'pending', 'pending', 'rejected']);
+    expect(readDoc('referrals/friend5')?.rejectedReason).toBe('referrer_rate_limit');
+  });
+
+  it('lets a referrer earn again once the day is over', async () => {
+    seedUser('alice');
+    const code = await ensureReferralCode('alice', 'device-alice');
+    await referMany(code, 5);
+    seedDoc(`referralCodes/${code}`, { ...readDoc(`referralCodes/${code}`), windowStartedAt: Timestamp.fromMillis(Date.now() - 25 * 60 * 60 * 1000) });
+
+    const [status] = await referMany(code, 1, 'later');
+
+    expect(status).toBe('pending');
+    expect(readDoc(`referralCodes/${code}`)?.windowAttributions).toBe(1);
+  });
+
+  it('rejects a referee on one of the referrer\'s own devices', async () => {
+    seedUser('alice');
+    seedUser('bob');
+    const code = await ensureReferralCode('alice', 'device-alice');
+
+    const status = await attributeReferral({ refereeId: 'bob', refereeEmail: 'bob@gmail.com', code, deviceId: 'device-alice' });
+
+    expect(status).toBe('rejected');
+    expect(readDoc('referrals/bob')?.rejectedReason).toBe('same_device');
+  });
+});
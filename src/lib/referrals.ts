@@ -0,0 +1,278 @@
+// lib/referrals.ts
+import crypto from 'crypto';
+import type { Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { notifyUser } from '@/lib/notifications';
+
+/**
+ * Referral program
+ *
+ * Every user can get a referral code (`referralCodes/{CODE}` → owner, plus the devices
+ * the owner has used). A signup through `/signup?ref=CODE` is ATTRIBUTED right after the
+ * new profile is created, as `referrals/{refereeId}`. Once the referee completes their
+ * first generation the referral is REWARDED: both people get bonus generations, added
+ * to their `credits` balance.
+ *
+ * Fraud guards, checked at attribution (a rejected referral is kept, but never rewarded):
+ * - the referee's device must not belong to the referrer or to an earlier referee;
+ * - a referrer gets at most MAX_REFERRALS_PER_EMAIL_DOMAIN referees from one company
+ *   domain (public webmail domains are exempt);
+ * - a referrer gets at most MAX_REFERRALS_PER_WINDOW attributions per REFERRAL_WINDOW_MS,
+ *   whatever devices and addresses they come from (counted on the referral code, since
+ *   the device ID and email are the referee's to choose);
+ * - only accounts created within ATTRIBUTION_WINDOW_MS can be attributed.
+ * Referrers stop earning after MAX_REWARDED_REFERRALS; their referees still get the bonus.
+ */
+
+export const REFERRAL_BONUS_GENERATIONS = 5;
+export const MAX_REWARDED_REFERRALS = 20;
+const MAX_REFERRALS_PER_EMAIL_DOMAIN = 3;
+const ATTRIBUTION_WINDOW_MS = 60 * 60 * 1000;
+const MAX_REFERRALS_PER_WINDOW = 5;
+const REFERRAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Anyone can have an address at these, so sharing one says nothing about who you are
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.in', 'outlook.com', 'hotmail.com',
+  'live.com', 'icloud.com', 'me.com', 'proton.me', 'protonmail.com', 'rediffmail.com', 'aol.com',
+]);
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export type ReferralStatus = 'pending' | 'rewarded' | 'rejected';
+
+export type ReferralRejection = 'same_device' | 'email_domain_limit' | 'referrer_rate_limit' | 'account_too_old' | 'self_referral';
+
+export interface ReferralRecord {
+  referrerId: string;
+  refereeId: string;
+  code: string;
+  status: ReferralStatus;
+  rejectedReason?: ReferralRejection;
+  deviceId: string | null; // Null on referrals from before a device ID was required
+  emailDomain: string | null;
+  referrerRewarded?: boolean;
+  createdAt: Timestamp;
+  rewardedAt?: Timestamp;
+}
+
+export interface ReferralStats {
+  code: string;
+  signups: number;
+  pending: number;
+  rewarded: number;
+  rejected: number;
+  bonusEarned: number;
+  bonusPerReferral: number;
+}
+
+/**
+ * Thrown when a referral link cannot be used. The message is safe to show to the customer.
+ */
+export class ReferralError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ReferralError';
+    this.status = status;
+  }
+}
+
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function referralCodeRef(code: string) {
+  return getDb().collection('referralCodes').doc(normalizeReferralCode(code));
+}
+
+function referralRef(refereeId: string) {
+  return getDb().collection('referrals').doc(refereeId);
+}
+
+function emailDomainOf(email: string | null): string | null {
+  return email?.split('@')[1]?.trim().toLowerCase() || null;
+}
+
+/**
+ * Returns the user's referral code, creating it on first use. `deviceId` is remembered
+ * as one of the referrer's own devices, which can then never be used by a referee.
+ */
+export async function ensureReferralCode(userId: string, deviceId?: string): Promise<string> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const userRef = db.collection('users').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new ReferralError('User profile not found.', 404);
+    }
+
+    const existing = userDoc.data()?.referralCode as string | undefined;
+    const code = existing ?? Array.from(crypto.randomBytes(8), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    const devices = deviceId ? { deviceIds: FieldValue.arrayUnion(deviceId) } : {};
+
+    if (existing) {
+      transaction.set(referralCodeRef(code), devices, { merge: true });
+    } else {
+      transaction.create(referralCodeRef(code), { userId, ...devices, createdAt: FieldValue.serverTimestamp() });
+      transaction.update(userRef, { referralCode: code });
+    }
+    return code;
+  });
+}
+
+/**
+ * Attributes a new account to the owner of a referral code, applying the fraud guards.
+ * Calling it again for the same referee returns the existing referral.
+ * @returns The referral's status
+ * @throws ReferralError if the code is unknown or the referee's profile is missing
+ */
+export async function attributeReferral(referral: {
+  refereeId: string;
+  refereeEmail: string | null;
+  code: string;
+  deviceId: string;
+}): Promise<ReferralStatus> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const refereeRef = db.collection('users').doc(referral.refereeId);
+  const emailDomain = emailDomainOf(referral.refereeEmail);
+  // The sign-in account's creation time, which (unlike the profile) the client can't rewrite
+  const { metadata } = await getFirebaseAdmin().auth().getUser(referral.refereeId);
+  const accountAge = Date.now() - new Date(metadata.creationTime).getTime();
+
+  return db.runTransaction(async (transaction) => {
+    const existingSnap = await transaction.get(referralRef(referral.refereeId));
+    if (existingSnap.exists) {
+      return (existingSnap.data() as ReferralRecord).status;
+    }
+
+    const codeSnap = await transaction.get(referralCodeRef(referral.code));
+    if (!codeSnap.exists) {
+      throw new ReferralError('This referral link is not valid.', 404);
+    }
+    const referrerId = codeSnap.data()!.userId as string;
+
+    const refereeDoc = await transaction.get(refereeRef);
+    if (!refereeDoc.exists) {
+      throw new ReferralError('User profile not found.', 404);
+    }
+
+    const sameDeviceSnap = await transaction.get(db.collection('referrals').where('deviceId', '==', referral.deviceId).limit(1));
+    const sameDomainSnap = emailDomain && !PUBLIC_EMAIL_DOMAINS.has(emailDomain)
+      ? await transaction.get(db.collection('referrals')
+          .where('referrerId', '==', referrerId)
+          .where('emailDomain', '==', emailDomain)
+          .limit(MAX_REFERRALS_PER_EMAIL_DOMAIN))
+      : null;
+
+    const referrerDevices = (codeSnap.data()?.deviceIds ?? []) as string[];
+    // Attributions so far in the referrer's current window; a window that has run out starts again
+    const windowStartedAt = (codeSnap.data()?.windowStartedAt as Timestamp | undefined)?.toMillis() ?? 0;
+    const windowOpen = Date.now() - windowStartedAt < REFERRAL_WINDOW_MS;
+    const windowAttributions = windowOpen ? (codeSnap.data()?.windowAttributions ?? 0) as number : 0;
+
+    let rejectedReason: ReferralRejection | undefined;
+    if (referrerId === referral.refereeId) {
+      rejectedReason = 'self_referral';
+    } else if (accountAge > ATTRIBUTION_WINDOW_MS) {
+      rejectedReason = 'account_too_old';
+    } else if (windowAttributions >= MAX_REFERRALS_PER_WINDOW) {
+      rejectedReason = 'referrer_rate_limit';
+    } else if (referrerDevices.includes(referral.deviceId) || !sameDeviceSnap.empty) {
+      rejectedReason = 'same_device';
+    } else if (sameDomainSnap && sameDomainSnap.size >= MAX_REFERRALS_PER_EMAIL_DOMAIN) {
+      rejectedReason = 'email_domain_limit';
+    }
+
+    const status: ReferralStatus = rejectedReason ? 'rejected' : 'pending';
+    transaction.create(existingSnap.ref, {
+      referrerId,
+      refereeId: referral.refereeId,
+      code: normalizeReferralCode(referral.code),
+      status,
+      ...(rejectedReason && { rejectedReason }),
+      deviceId: referral.deviceId,
+      emailDomain,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    if (rejectedReason !== 'self_referral') {
+      // Rejected attempts count too, so a referrer can't probe the other guards for free
+      transaction.update(codeSnap.ref, windowOpen
+        ? { windowAttributions: FieldValue.increment(1) }
+        : { windowStartedAt: FieldValue.serverTimestamp(), windowAttributions: 1 });
+    }
+    if (!rejectedReason) {
+      transaction.update(refereeRef, { referredBy: referrerId });
+    }
+    return status;
+  });
+}
+
+/**
+ * Rewards the user's pending referral, if any, inside the caller's transaction. Called
+ * when a generation succeeds, so the first one completes the referral.
+ * Performs its reads first, so the caller may only WRITE after calling this.
+ */
+export async function rewardReferralOnGeneration(transaction: Transaction, refereeId: string): Promise<void> {
+  const db = getDb();
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  const referralSnap = await transaction.get(referralRef(refereeId));
+  const referral = referralSnap.data() as ReferralRecord | undefined;
+
+  if (referral?.status !== 'pending') {
+    return;
+  }
+
+  const referrerRef = db.collection('users').doc(referral.referrerId);
+  const referrerDoc = await transaction.get(referrerRef);
+  const referrerRewarded = referrerDoc.exists && (referrerDoc.data()?.referralRewards ?? 0) < MAX_REWARDED_REFERRALS;
+
+  transaction.update(referralSnap.ref, {
+    status: 'rewarded',
+    referrerRewarded,
+    rewardedAt: FieldValue.serverTimestamp(),
+  });
+  transaction.update(db.collection('users').doc(refereeId), {
+    credits: FieldValue.increment(REFERRAL_BONUS_GENERATIONS),
+  });
+  notifyUser(transaction, refereeId, {
+    type: 'referral',
+    title: 'Bonus unlocked',
+    body: `Thanks for joining through a friend! ${REFERRAL_BONUS_GENERATIONS} bonus generations were added to your account.`,
+  });
+
+  if (referrerRewarded) {
+    transaction.update(referrerRef, {
+      credits: FieldValue.increment(REFERRAL_BONUS_GENERATIONS),
+      referralRewards: FieldValue.increment(1),
+    });
+    notifyUser(transaction, referral.referrerId, {
+      type: 'referral',
+      title: 'Your friend made their first page',
+      body: `You earned ${REFERRAL_BONUS_GENERATIONS} bonus generations for your referral.`,
+    });
+  }
+}
+
+/**
+ * Counts the user's referrals by status.
+ */
+export async function getReferralStats(userId: string, code: string): Promise<ReferralStats> {
+  const snap = await getDb().collection('referrals').where('referrerId', '==', userId).get();
+  const referrals = snap.docs.map((doc) => doc.data() as ReferralRecord);
+  const count = (status: ReferralStatus) => referrals.filter((r) => r.status === status).length;
+
+  return {
+    code,
+    signups: referrals.length,
+    pending: count('pending'),
+    rewarded: count('rewarded'),
+    rejected: count('rejected'),
+    bonusEarned: referrals.filter((r) => r.referrerRewarded).length * REFERRAL_BONUS_GENERATIONS,
+    bonusPerReferral: REFERRAL_BONUS_GENERATIONS,
+  };
+}
@@ -0,0 +1,40 @@
+// lib/request-context.ts
+import { headers } from 'next/headers';
+
+/**
+ * Facts about the incoming request, for server actions (which can't see the request directly).
+ */
+
+/**
+ * The caller's ISO 3166 country code, from the geo-IP header named by GEO_COUNTRY_HEADER.
+ * Null if unknown, so the default currency applies.
+ *
+ * The country picks the currency and gateway, so it must not be the client's to choose:
+ * only the one header the CDN or load balancer in front of the app sets (and overwrites)
+ * is trusted. Any other header, and Accept-Language, can be sent by anyone.
+ */
+export async function getRequestCountry(): Promise<string | null> {
+  const headerName = process.env.GEO_COUNTRY_HEADER?.trim();
+  if (!headerName) {
+    return null;
+  }
+
+  const requestHeaders = await headers();
+  const value = requestHeaders.get(headerName)?.trim().toUpperCase();
+  return value && /^[A-Z]{2}$/.test(value) && value !== 'XX' ? value : null;
+}
+
+/**
+ * The public origin the caller used (e.g. `https://example.com`), for redirect URLs.
+ */
+export async function getRequestOrigin(): Promise<string> {
+  const requestHeaders = await headers();
+  const origin = requestHeaders.get('origin');
+  if (origin) {
+    return origin;
+  }
+
+  const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host') ?? 'localhost:9000';
+  const protocol = requestHeaders.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https');
+  return `${protocol}://${host}`;
+}
@@ -0,0 +1,198 @@
+// lib/subscriptions.ts
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { PLANS, type PlanId, type SubscriptionStatus } from '@/lib/plans';
+
+/**
+ * Recurring Pro plans backed by Razorpay Subscriptions.
+ *
+ * Each subscription is mirrored at `subscriptions/{subscriptionId}`, and its state is
+ * copied onto the owner's profile as `plan`, `subscriptionStatus`, `currentPeriodEnd`
+ * and `cancelAtPeriodEnd`. Entitlement checks rely on `currentPeriodEnd`, so access
+ * lapses on time even if a cancellation webhook is delayed or lost.
+ */
+
+export interface SubscriptionRecord {
+  subscriptionId: string;
+  userId: string;
+  plan: PlanId;
+  status: SubscriptionStatus | 'created';
+  currentPeriodEnd: Timestamp | null;
+  cancelAtPeriodEnd: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Thrown when a subscription is missing or does not belong to the caller.
+ */
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+const INTERVAL_MS = {
+  monthly: 31 * 24 * 60 * 60 * 1000,
+  yearly: 366 * 24 * 60 * 60 * 1000,
+};
+
+function subscriptionRef(subscriptionId: string) {
+  return getDb().collection('subscriptions').doc(subscriptionId);
+}
+
+/**
+ * Maps Razorpay's subscription lifecycle onto ours.
+ * `pending` means a renewal charge is being retried, so access continues until the period ends.
+ */
+function toSubscriptionStatus(razorpayStatus: string): SubscriptionStatus | 'created' {
+  switch (razorpayStatus) {
+    case 'authenticated':
+    case 'active':
+    case 'pending':
+      return 'active';
+    case 'halted':
+      return 'halted';
+    case 'cancelled':
+      return 'cancelled';
+    case 'completed':
+    case 'expired':
+      return 'expired';
+    default:
+      return 'created';
+  }
+}
+
+export async function createSubscriptionRecord({ subscriptionId, userId, plan }: { subscriptionId: string; userId: string; plan: PlanId }): Promise<void> {
+  const FieldValue = getFirebaseAdmin().firestore.FieldValue;
+  await subscriptionRef(subscriptionId).create({
+    subscriptionId,
+    userId,
+    plan,
+    status: 'created',
+    currentPeriodEnd: null,
+    cancelAtPeriodEnd: false,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+export async function getSubscriptionRecord(subscriptionId: string): Promise<SubscriptionRecord | null> {
+  const snap = await subscriptionRef(subscriptionId).get();
+  return snap.exists ? (snap.data() as SubscriptionRecord) : null;
+}
+
+interface SubscriptionState {
+  status: SubscriptionStatus | 'created';
+  currentPeriodEnd: Timestamp | null;
+  cancelAtPeriodEnd?: boolean;
+}
+
+/**
+ * Writes subscription state to the record and, if this is the subscription the
+ * user is on, to their profile. A lifetime purchase is never downgraded by a
+ * subscription ending.
+ */
+async function applySubscriptionState(subscriptionId: string, state: SubscriptionState): Promise<string> {
+  const db = getDb();
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+
+  return db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(subscriptionRef(subscriptionId));
+    if (!snap.exists) {
+      throw new SubscriptionError(`Subscription ${subscriptionId} not found.`);
+    }
+    const record = snap.data() as SubscriptionRecord;
+    const userRef = db.collection('users').doc(record.userId);
+    const userDoc = await transaction.get(userRef);
+    const userData = userDoc.data();
+
+    const cancelAtPeriodEnd = state.cancelAtPeriodEnd ?? record.cancelAtPeriodEnd;
+    // An active plan must always expire: without a known period end (e.g. checkout
+    // completed before the first charge), grant one interval from now.
+    let currentPeriodEnd = state.currentPeriodEnd ?? record.currentPeriodEnd;
+    if (state.status === 'active' && !currentPeriodEnd) {
+      const interval = PLANS[record.plan].interval ?? 'monthly';
+      currentPeriodEnd = Timestamp.fromMillis(Date.now() + INTERVAL_MS[interval]);
+    }
+
+    transaction.update(snap.ref, {
+      status: state.status,
+      currentPeriodEnd,
+      cancelAtPeriodEnd,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    if (!userDoc.exists || state.status === 'created') {
+      return record.userId;
+    }
+
+    const isCurrentPlan = userData?.razorpaySubscriptionId === subscriptionId;
+    const hasLifetime = userData?.plan === 'pro_lifetime' && userData?.isSubscribed === true;
+
+    if (state.status === 'active' && !hasLifetime) {
+      transaction.update(userRef, {
+        isSubscribed: true,
+        plan: record.plan,
+        subscriptionStatus: 'active',
+        currentPeriodEnd,
+        cancelAtPeriodEnd,
+        razorpaySubscriptionId: subscriptionId,
+        ...(!isCurrentPlan && { upgradedAt: FieldValue.serverTimestamp() }),
+      });
+    } else if (isCurrentPlan && !hasLifetime) {
+      transaction.update(userRef, {
+        isSubscribed: false,
+        subscriptionStatus: state.status,
+        currentPeriodEnd,
+        cancelAtPeriodEnd,
+        downgradedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    return record.userId;
+  });
+}
+
+/**
+ * Activates a subscription right after checkout, before Razorpay's webhook arrives.
+ * The period end is provisional (one interval from now) until `subscription.charged`
+ * reports the real one.
+ * @returns The uid of the subscriber
+ */
+export async function activateSubscription(subscriptionId: string): Promise<string> {
+  return applySubscriptionState(subscriptionId, {
+    status: 'active',
+    currentPeriodEnd: null,
+  });
+}
+
+/**
+ * Mirrors a Razorpay subscription entity (from a webhook) onto our records.
+ * @returns The uid of the subscriber
+ */
+export async function syncSubscription(entity: { id: string; status: string; current_end?: number | null }): Promise<string> {
+  const { Timestamp } = getFirebaseAdmin().firestore;
+  return applySubscriptionState(entity.id, {
+    status: toSubscriptionStatus(entity.status),
+    currentPeriodEnd: entity.current_end ? Timestamp.fromMillis(entity.current_end * 1000) : null,
+  });
+}
+
+/**
+ * Records that the subscription will not renew. Access continues until `currentPeriodEnd`,
+ * after which Razorpay sends `subscription.cancelled`.
+ */
+export async function markCancelAtPeriodEnd(subscriptionId: string, cancelAtPeriodEnd: boolean): Promise<void> {
+  const record = await getSubscriptionRecord(subscriptionId);
+  if (!record) {
+    throw new SubscriptionError(`Subscription ${subscriptionId} not found.`);
+  }
+
+  await applySubscriptionState(subscriptionId, {
+    status: record.status,
+    currentPeriodEnd: record.currentPeriodEnd,
+    cancelAtPeriodEnd,
+  });
+}
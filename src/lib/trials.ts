@@ -0,0 +1,60 @@
+// lib/trials.ts
+import type { Timestamp } from 'firebase-admin/firestore';
+import { getDb, getFirebaseAdmin } from '@/lib/firebaseAdmin';
+import { hasActivePro, TRIAL_DURATION_MS } from '@/lib/plans';
+
+/**
+ * Free Pro trials
+ *
+ * A trial sets `trialStartedAt` and `trialEndsAt` on the profile. Nothing runs when it
+ * ends: entitlement checks compare `trialEndsAt` with the current time (see `isOnTrial`
+ * in `lib/plans.ts`), so the user drops back to the free limits on their own. Each
+ * account gets one trial; `trialStartedAt` is never cleared. Firestore rules stop
+ * clients from writing either field.
+ */
+
+/**
+ * Thrown when a trial can't be started. The message is safe to show to the customer.
+ */
+export class TrialError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'TrialError';
+    this.status = status;
+  }
+}
+
+/**
+ * Starts the user's free Pro trial.
+ * @returns When the trial ends
+ * @throws TrialError if the profile is missing, the user already has Pro, or their trial was used
+ */
+export async function startTrial(userId: string): Promise<Timestamp> {
+  const db = getDb();
+  const { FieldValue, Timestamp } = getFirebaseAdmin().firestore;
+  const userRef = db.collection('users').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new TrialError('User profile not found.', 404);
+    }
+
+    const userData = userDoc.data();
+    if (userData?.trialStartedAt) {
+      throw new TrialError('You have already used your free trial.', 409);
+    }
+    if (hasActivePro(userData)) {
+      throw new TrialError('You already have Pro.', 409);
+    }
+
+    const trialEndsAt = Timestamp.fromMillis(Date.now() + TRIAL_DURATION_MS);
+    transaction.update(userRef, {
+      trialStartedAt: FieldValue.serverTimestamp(),
+      trialEndsAt,
+    });
+    return trialEndsAt;
+  });
+}
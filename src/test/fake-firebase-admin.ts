@@ -0,0 +1,382 @@
+/**
+ * In-memory stand-in for the parts of the Firebase Admin SDK the server code uses, so
+ * payment flows can be tested without a Firestore emulator. Tests swap it in for
+ * `@/lib/firebaseAdmin` (see `./setup.ts`).
+ *
+ * Documents are plain objects keyed by path. Transactions follow Firestore's rules:
+ * reads must all come before writes, and writes are applied together on commit.
+ * ID tokens are `token:<uid>`, or `admin:<uid>` for a token with the `admin` claim.
+ */
+
+import crypto from 'crypto';
+
+export class Timestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static now() {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  static fromMillis(millis: number) {
+    return new Timestamp(Math.floor(millis / 1000), (millis % 1000) * 1e6);
+  }
+
+  static fromDate(date: Date) {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  toMillis() {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  toDate() {
+    return new Date(this.toMillis());
+  }
+}
+
+class FieldTransform {
+  constructor(readonly apply: (current: unknown) => unknown) {}
+}
+
+const DELETE = Symbol('delete');
+
+export const FieldValue = {
+  serverTimestamp: () => new FieldTransform(() => Timestamp.now()),
+  increment: (n: number) => new FieldTransform((current) => (typeof current === 'number' ? current : 0) + n),
+  arrayUnion: (...elements: unknown[]) => new FieldTransform((current) => {
+    const array = Array.isArray(current) ? [...current] : [];
+    for (const element of elements) {
+      if (!array.some((existing) => isEqual(existing, element))) array.push(element);
+    }
+    return array;
+  }),
+  arrayRemove: (...elements: unknown[]) => new FieldTransform((current) =>
+    (Array.isArray(current) ? current : []).filter((existing) => !elements.some((element) => isEqual(existing, element)))
+  ),
+  delete: () => DELETE,
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+  return value; // Timestamps are immutable
+}
+
+/**
+ * Writes `value` at a dotted field path, resolving sentinels against what is there.
+ */
+function writeField(target: Record<string, any>, path: string[], value: unknown) {
+  const [key, ...rest] = path;
+  if (rest.length) {
+    if (!isPlainObject(target[key])) target[key] = {};
+    writeField(target[key], rest, value);
+  } else if (value === DELETE) {
+    delete target[key];
+  } else if (value instanceof FieldTransform) {
+    target[key] = value.apply(target[key]);
+  } else if (isPlainObject(value)) {
+    // Nested maps may hold sentinels too
+    const map: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) writeField(map, [k], v);
+    target[key] = map;
+  } else {
+    target[key] = clone(value);
+  }
+}
+
+function mergeFields(target: Record<string, any>, data: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeFields(target[key], value);
+    } else {
+      writeField(target, [key], value);
+    }
+  }
+}
+
+function firestoreError(code: number, message: string) {
+  return Object.assign(new Error(`${code} ${message}`), { code });
+}
+
+const documents = new Map<string, Record<string, any>>();
+
+export class DocumentSnapshot {
+  constructor(readonly ref: DocumentReference, private readonly stored: Record<string, any> | undefined) {}
+
+  get id() {
+    return this.ref.id;
+  }
+
+  get exists() {
+    return this.stored !== undefined;
+  }
+
+  data(): Record<string, any> | undefined {
+    return this.stored && clone(this.stored);
+  }
+
+  get(field: string) {
+    return field.split('.').reduce<any>((value, key) => value?.[key], this.stored);
+  }
+}
+
+export class DocumentReference {
+  constructor(readonly path: string) {}
+
+  get id() {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string) {
+    return new CollectionReference(`${this.path}/${name}`);
+  }
+
+  async get() {
+    return new DocumentSnapshot(this, documents.get(this.path));
+  }
+
+  async create(data: Record<string, unknown>) {
+    applyWrite({ type: 'create', ref: this, data });
+  }
+
+  async set(data: Record<string, unknown>, options?: { merge?: boolean }) {
+    applyWrite({ type: 'set', ref: this, data, merge: options?.merge });
+  }
+
+  async update(data: Record<string, unknown>) {
+    applyWrite({ type: 'update', ref: this, data });
+  }
+
+  async delete() {
+    documents.delete(this.path);
+  }
+}
+
+type Filter = { field: string; op: '==' | 'in'; value: unknown };
+
+function matches(snap: DocumentSnapshot, { field, op, value }: Filter) {
+  const actual = snap.get(field);
+  return op === 'in' ? (value as unknown[]).some((candidate) => isEqual(actual, candidate)) : isEqual(actual, value);
+}
+
+export class Query {
+  constructor(readonly path: string, protected readonly filters: Filter[] = [], protected readonly max?: number) {}
+
+  where(field: string, op: string, value: unknown) {
+    if (op !== '==' && op !== 'in') throw new Error(`The fake Firestore only supports '==' and 'in' filters, not '${op}'.`);
+    return new Query(this.path, [...this.filters, { field, op, value }], this.max);
+  }
+
+  limit(max: number) {
+    return new Query(this.path, this.filters, max);
+  }
+
+  count() {
+    return {
+      get: async () => {
+        const { size } = await this.get();
+        return { data: () => ({ count: size }) };
+      },
+    };
+  }
+
+  async get() {
+    const depth = this.path.split('/').length + 1;
+    const docs = [...documents.entries()]
+      .filter(([path]) => path.startsWith(`${this.path}/`) && path.split('/').length === depth)
+      .map(([path, data]) => new DocumentSnapshot(new DocumentReference(path), data))
+      .filter((snap) => this.filters.every((filter) => matches(snap, filter)))
+      .slice(0, this.max);
+    return { docs, empty: docs.length === 0, size: docs.length };
+  }
+}
+
+export class CollectionReference extends Query {
+  doc(id: string = crypto.randomBytes(10).toString('hex')) {
+    return new DocumentReference(`${this.path}/${id}`);
+  }
+}
+
+type Write =
+  | { type: 'create' | 'update'; ref: DocumentReference; data: Record<string, unknown> }
+  | { type: 'set'; ref: DocumentReference; data: Record<string, unknown>; merge?: boolean }
+  | { type: 'delete'; ref: DocumentReference };
+
+function applyWrite(write: Write) {
+  const existing = documents.get(write.ref.path);
+  switch (write.type) {
+    case 'create': {
+      if (existing) throw firestoreError(6, `ALREADY_EXISTS: Document already exists: ${write.ref.path}`);
+      const created = {};
+      mergeFields(created, write.data);
+      documents.set(write.ref.path, created);
+      return;
+    }
+    case 'set': {
+      const next = write.merge && existing ? clone(existing) : {};
+      mergeFields(next, write.data);
+      documents.set(write.ref.path, next);
+      return;
+    }
+    case 'update': {
+      if (!existing) throw firestoreError(5, `NOT_FOUND: No document to update: ${write.ref.path}`);
+      const next = clone(existing);
+      for (const [field, value] of Object.entries(write.data)) writeField(next, field.split('.'), value);
+      documents.set(write.ref.path, next);
+      return;
+    }
+    case 'delete':
+      documents.delete(write.ref.path);
+  }
+}
+
+class Transaction {
+  readonly writes: Write[] = [];
+
+  async get(target: DocumentReference | Query): Promise<any> {
+    if (this.writes.length) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+    return target.get();
+  }
+
+  create(ref: DocumentReference, data: Record<string, unknown>) {
+    this.writes.push({ type: 'create', ref, data });
+    return this;
+  }
+
+  set(ref: DocumentReference, data: Record<string, unknown>, options?: { merge?: boolean }) {
+    this.writes.push({ type: 'set', ref, data, merge: options?.merge });
+    return this;
+  }
+
+  update(ref: DocumentReference, data: Record<string, unknown>) {
+    this.writes.push({ type: 'update', ref, data });
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.writes.push({ type: 'delete', ref });
+    return this;
+  }
+}
+
+const firestore = {
+  collection: (path: string) => new CollectionReference(path),
+  doc: (path: string) => new DocumentReference(path),
+  async runTransaction<T>(updateFunction: (transaction: Transaction) => Promise<T>): Promise<T> {
+    const transaction = new Transaction();
+    const result = await updateFunction(transaction);
+    // Committed all at once, on a snapshot so a failed write leaves nothing behind
+    const before = new Map(documents);
+    try {
+      transaction.writes.forEach(applyWrite);
+    } catch (error) {
+      documents.clear();
+      before.forEach((data, path) => documents.set(path, data));
+      throw error;
+    }
+    return result;
+  },
+};
+
+const auth = {
+  async verifyIdToken(idToken: string) {
+    const match = idToken.match(/^(token|admin):(.+)$/);
+    if (!match) throw Object.assign(new Error('Invalid ID token.'), { code: 'auth/argument-error' });
+    const [, kind, uid] = match;
+    const profile = documents.get(`users/${uid}`);
+    return { uid, email: profile?.email ?? `${uid}@example.com`, email_verified: true, ...(kind === 'admin' && { admin: true }) };
+  },
+  // Every account was created just now
+  async getUser(uid: string) {
+    return { uid, metadata: { creationTime: new Date().toUTCString() } };
+  },
+};
+
+const files = new Map<string, { contents: Buffer; options: Record<string, any> }>();
+
+const storage = {
+  bucket: (name = 'test-bucket.appspot.com') => ({
+    name,
+    file: (path: string) => ({
+      async save(contents: Buffer, options: Record<string, any> = {}) {
+        files.set(`${name}/${path}`, { contents, options });
+      },
+    }),
+  }),
+};
+
+const admin = {
+  apps: [{ name: '[DEFAULT]' }],
+  firestore: Object.assign(() => firestore, { FieldValue, Timestamp }),
+  auth: () => auth,
+  storage: () => storage,
+};
+
+export function getFirebaseAdmin() {
+  return admin;
+}
+
+export function getDb() {
+  return firestore;
+}
+
+export function getAuth() {
+  return auth;
+}
+
+export function getStorage() {
+  return storage;
+}
+
+export function ensureFirebaseInitialized() {
+  return true;
+}
+
+/**
+ * Reads a document as the server would see it, for assertions.
+ */
+export function readDoc(path: string): Record<string, any> | undefined {
+  const data = documents.get(path);
+  return data && clone(data);
+}
+
+/**
+ * Writes a document directly, for arranging a test.
+ */
+export function seedDoc(path: string, data: Record<string, unknown>) {
+  const seeded = {};
+  mergeFields(seeded, data);
+  documents.set(path, seeded);
+}
+
+/**
+ * Every document in a collection, for assertions.
+ */
+export function listDocs(path: string): Record<string, any>[] {
+  const depth = path.split('/').length + 1;
+  return [...documents.entries()]
+    .filter(([docPath]) => docPath.startsWith(`${path}/`) && docPath.split('/').length === depth)
+    .map(([, data]) => clone(data));
+}
+
+/**
+ * Every file saved to a bucket, keyed by `bucket/path`, for assertions.
+ */
+export function listFiles(): Map<string, { contents: Buffer; options: Record<string, any> }> {
+  return new Map(files);
+}
+
+export function resetFirestore() {
+  documents.clear();
+  files.clear();
+}
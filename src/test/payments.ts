@@ -0,0 +1,52 @@
+/**
+ * Helpers for driving the payment flows the way the browser and Razorpay do.
+ */
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { POST as verifyPaymentRoute } from '@/app/api/verify-payment/route';
+import { POST as razorpayWebhookRoute } from '@/app/api/razorpay-webhook/route';
+import { seedDoc } from './fake-firebase-admin';
+
+export function idToken(uid: string) {
+  return `token:${uid}`;
+}
+
+export function adminIdToken(uid: string) {
+  return `admin:${uid}`;
+}
+
+/**
+ * A profile as the signup page creates it.
+ */
+export function seedUser(uid: string, fields: Record<string, unknown> = {}) {
+  seedDoc(`users/${uid}`, { email: `${uid}@example.com`, generationCount: 0, isSubscribed: false, ...fields });
+}
+
+/**
+ * Posts what Checkout returned to /api/verify-payment as `uid`.
+ */
+export async function verifyPayment(uid: string, checkout: Record<string, unknown>) {
+  const response = await verifyPaymentRoute(new NextRequest('http://localhost/api/verify-payment', {
+    method: 'POST',
+    headers: { authorization: `Bearer ${idToken(uid)}`, 'content-type': 'application/json' },
+    body: JSON.stringify(checkout),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Delivers a Razorpay webhook event, signed with the test webhook secret unless `signature` is given.
+ */
+export async function deliverWebhook(event: string, payload: Record<string, unknown>, { eventId = `evt_${crypto.randomBytes(6).toString('hex')}`, signature }: { eventId?: string; signature?: string } = {}) {
+  const rawBody = JSON.stringify({ event, payload });
+  const response = await razorpayWebhookRoute(new NextRequest('http://localhost/api/razorpay-webhook', {
+    method: 'POST',
+    headers: {
+      'x-razorpay-signature': signature ?? crypto.createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET!).update(rawBody).digest('hex'),
+      'x-razorpay-event-id': eventId,
+    },
+    body: rawBody,
+  }));
+  return { status: response.status, body: await response.json() };
+}
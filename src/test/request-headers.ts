@@ -0,0 +1,4 @@
+/**
+ * The headers `next/headers` returns to server actions under test.
+ */
+export const requestHeaders = new Headers();
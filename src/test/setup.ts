@@ -0,0 +1,25 @@
+/**
+ * Runs before every test file: swaps Firebase Admin for the in-memory fake, puts Razorpay
+ * in stub mode and lets tests set the headers server actions see.
+ */
+
+import { beforeEach, vi } from 'vitest';
+import { resetFirestore } from './fake-firebase-admin';
+import { requestHeaders } from './request-headers';
+
+vi.mock('@/lib/firebaseAdmin', () => import('./fake-firebase-admin'));
+vi.mock('server-only', () => ({}));
+vi.mock('next/headers', () => ({ headers: async () => requestHeaders }));
+
+process.env.RAZORPAY_MODE = 'stub';
+process.env.RAZORPAY_WEBHOOK_SECRET = 'whsec_test';
+delete process.env.PAYMENT_GATEWAY;
+delete process.env.STRIPE_SECRET_KEY;
+
+beforeEach(() => {
+  resetFirestore();
+  [...requestHeaders.keys()].forEach((name) => requestHeaders.delete(name));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});